@@ -1,4 +1,5 @@
-import { ISkewerModel, SchemaType, SkewerModel } from '../src';
+import { ISkewerModel, SchemaType } from '../src';
+import { db } from './db';
 
 export interface IUser {
   userId: string;
@@ -12,4 +13,5 @@ export const UserSchema: SchemaType = {
 
 export interface IUserModel extends IUser, ISkewerModel {}
 
-export const UserModel = () => new SkewerModel<IUserModel>('users', UserSchema);
+// every call returns the same model instance of the database
+export const UserModel = () => db.model<IUserModel>('users', UserSchema);
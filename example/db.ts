@@ -0,0 +1,3 @@
+import { SkewerDatabase } from '../src';
+
+export const db = new SkewerDatabase();
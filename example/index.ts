@@ -1,8 +1,9 @@
+import { db } from './db';
 import { IUser, UserModel } from './UserModel';
 
 (async function () {
   const userModel = UserModel();
-  await userModel.initialize();
+  await db.connect();
   const sampleUser: IUser = { userId: 'jd', name: 'J Doe' };
 
   console.log(userModel.insertOne(sampleUser));
@@ -24,4 +25,6 @@ import { IUser, UserModel } from './UserModel';
   //       updatedAt: '2024-12-17T19:42:09.200Z'
   //     }
   //   ]
+
+  await db.close();
 })();
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'events';
+
+import { ChangeEvent, FilterQuery } from './types';
+import { matchesFilter } from './utils/searchAlgo';
+
+export class ChangeStream<T> extends EventEmitter implements AsyncIterable<ChangeEvent<T>> {
+  private filter: FilterQuery;
+  private onClose: () => void;
+  // events not yet read by the async iterator, kept unless the stream is only used with listeners
+  private queue: Array<ChangeEvent<T>>;
+  private waitingReads: Array<(result: IteratorResult<ChangeEvent<T>>) => void>;
+  private isIterating: boolean;
+  private isClosed: boolean;
+
+  /**
+   * Default constructor, use SkewerModel.watch to open a change stream
+   *
+   * @param {FilterQuery} filter only changes of records matching the filter are emitted
+   * @param {Function} onClose called once when the stream is closed
+   */
+  constructor(filter: FilterQuery, onClose: () => void) {
+    super();
+    this.filter = filter;
+    this.onClose = onClose;
+    this.queue = [];
+    this.waitingReads = [];
+    this.isIterating = false;
+    this.isClosed = false;
+  }
+
+  /**
+   * Emits a change event if it matches the filter. Drop events are always emitted.
+   *
+   * @param  {ChangeEvent<T>} event
+   * @internal
+   * @returns void
+   */
+  push(event: ChangeEvent<T>): void {
+    const record = event.document ?? event.previousDocument;
+
+    if (this.isClosed || (event.operationType !== 'drop' && !matchesFilter(record, this.filter))) {
+      return;
+    }
+
+    const hasListeners = this.listenerCount('change') > 0;
+    this.emit('change', event);
+
+    const read = this.waitingReads.shift();
+    if (read) {
+      read({ value: event, done: false });
+    } else if (this.isIterating || !hasListeners) {
+      this.queue.push(event);
+    }
+  }
+
+  /**
+   * Stops the stream, pending reads of the async iterator finish and no more events are emitted
+   *
+   * @returns void
+   */
+  close(): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.isClosed = true;
+    this.waitingReads.splice(0).forEach((read) => read({ value: undefined, done: true }));
+    this.onClose();
+    this.emit('close');
+  }
+
+  /**
+   * Allows reading the events with for await, breaking out of the loop closes the stream
+   */
+  [Symbol.asyncIterator](): AsyncIterator<ChangeEvent<T>> {
+    this.isIterating = true;
+
+    return {
+      next: () => {
+        const event = this.queue.shift();
+
+        if (event) {
+          return Promise.resolve({ value: event, done: false });
+        }
+        if (this.isClosed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve) => this.waitingReads.push(resolve));
+      },
+      return: () => {
+        this.close();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+}
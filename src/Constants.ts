@@ -1,3 +1,30 @@
 export const CONSTANTS = {
   ignoredDBRecordKeys: ['id', 'createdAt', 'updatedAt'],
+  journalCompactRatio: 1,
+  // the compact ratio is only checked once the journal is larger than this, to avoid compacting tiny collections
+  journalMinCompactSize: 64 * 1024,
+  // a write waits this long for the lock file of a collection held by another process before it fails
+  lockTimeout: 10 * 1000,
+  lockRetryInterval: 20,
+  // the holder of a lock of another host can not be checked, its lock is taken over once it is this old
+  lockStaleTime: 60 * 1000,
+  // marks encrypted files and journal lines, plain JSON never starts with it
+  encryptedFilePrefix: 'skewer:aes-256-gcm:',
+  // mark compressed files, the compressed data follows base64 encoded
+  compressedFilePrefixes: { gzip: 'skewer:gzip:', brotli: 'skewer:brotli:' },
+  // imports outside of a transaction save the imported rows in batches of this size
+  importBatchSize: 1000,
+  // records can expire at the date of this field, without a TTL field in the schema
+  expireAtField: 'expireAt',
+  ttlSweepInterval: 60 * 1000,
+  // request bodies of the REST server larger than this are rejected with 413
+  maxRequestBodySize: 1024 * 1024,
+  // BM25 parameters of the text search, k1 limits the weight of repeated terms and b the length normalization
+  textScoreK1: 1.2,
+  textScoreB: 0.75,
+  // words too common to tell records apart, they are not indexed or searched
+  textStopWords: (
+    'a an and are as at be but by for from has have he her his i if in into is it its me my no ' +
+    'not of on or our she so such that the their then there these they this to was we were will with you your'
+  ).split(' '),
 };
@@ -0,0 +1,214 @@
+import { FindOptions, ProjectionType, SortType } from './types';
+import { compareSortValues } from './utils/searchAlgo';
+import { deepClone, getValue, setValue, unsetValue } from './utils/updateAlgo';
+
+export class Query<T, R = Array<T>> implements PromiseLike<R> {
+  private executor: (options: FindOptions) => Array<T>;
+  private isSingle: boolean;
+  private sortSpec?: SortType;
+  private skipCount: number;
+  private limitCount?: number;
+  private projection?: ProjectionType;
+  private populator?: (record: T, paths: Array<string>) => T;
+  private populatePaths: Array<string>;
+
+  /**
+   * Default constructor
+   *
+   * @param {Function} executor returns the records matching the filter of the query, it gets the sort order and the
+   * number of records needed so that it can use a sorted index
+   * @param {boolean} isSingle resolves to the first matching record instead of an array
+   * @param {Function} populator returns a copy of a record with the referenced records in place of the ids
+   */
+  constructor(
+    executor: (options: FindOptions) => Array<T>,
+    isSingle = false,
+    populator?: (record: T, paths: Array<string>) => T
+  ) {
+    this.executor = executor;
+    this.isSingle = isSingle;
+    this.skipCount = 0;
+    this.populator = populator;
+    this.populatePaths = [];
+  }
+
+  // #region private methods
+  /**
+   * Compares two records using the sort specification, missing values are sorted first
+   *
+   * @param  {any} a
+   * @param  {any} b
+   * @private
+   * @returns number
+   */
+  private compareRecords(a: any, b: any): number {
+    for (const [key, direction] of Object.entries(this.sortSpec || {})) {
+      const order = direction === -1 || direction === 'desc' ? -1 : 1;
+      const result = compareSortValues(getValue(a, key), getValue(b, key));
+
+      if (result !== 0) return result * order;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Applies the projection to a record and returns a shallow copy with the selected fields, or of the whole record
+   * without a projection, so that changing a result does not change the cached record
+   *
+   * @param  {any} record
+   * @private
+   * @returns any
+   */
+  private project(record: any): any {
+    if (!this.projection) {
+      return { ...record };
+    }
+
+    const entries = Object.entries(this.projection);
+    const isInclusion = entries.some(([key, value]) => key !== 'id' && value === 1);
+
+    if (isInclusion) {
+      const projected: any = {};
+      if (this.projection.id !== 0) projected.id = record.id;
+      entries.forEach(([key, value]) => {
+        const fieldValue = getValue(record, key);
+        if (value === 1 && fieldValue !== undefined) setValue(projected, key, fieldValue);
+      });
+
+      return projected;
+    }
+
+    // dotted paths remove fields of nested objects, which must not change the cached record
+    const projected = deepClone(record);
+    entries.forEach(([key, value]) => {
+      if (value === 0) unsetValue(projected, key);
+    });
+
+    return projected;
+  }
+
+  /**
+   * Runs the query synchronously against the in memory data
+   *
+   * @private
+   * @returns R
+   */
+  private run(): R {
+    const end = this.isSingle
+      ? this.skipCount + 1
+      : this.limitCount === undefined
+        ? undefined
+        : this.skipCount + this.limitCount;
+    let records = this.executor({ sort: this.sortSpec, limit: end });
+
+    if (this.sortSpec) {
+      records = [...records].sort((a, b) => this.compareRecords(a, b));
+    }
+
+    records = records.slice(this.skipCount, end);
+
+    const projected = records.map((record) => {
+      const projectedRecord = this.project(record);
+      return this.populator && this.populatePaths.length
+        ? this.populator(projectedRecord, this.populatePaths)
+        : projectedRecord;
+    });
+
+    return (this.isSingle ? projected[0] : projected) as R;
+  }
+  // #endregion
+
+  /**
+   * Sorts the results by one or more fields, 1 / 'asc' for ascending and -1 / 'desc' for descending
+   *
+   * @param  {SortType} sortSpec e.g. { createdAt: -1, name: 1 }
+   * @returns Query
+   */
+  sort(sortSpec: SortType): this {
+    this.sortSpec = sortSpec;
+    return this;
+  }
+
+  /**
+   * Skips the first n results
+   *
+   * @param  {number} count
+   * @returns Query
+   */
+  skip(count: number): this {
+    this.skipCount = count;
+    return this;
+  }
+
+  /**
+   * Limits the number of results
+   *
+   * @param  {number} count
+   * @returns Query
+   */
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  /**
+   * Selects the fields to return. Accepts an array of field names, a space separated string
+   * (prefix a field with - to exclude it) or an object of { field: 1 | 0 }. The id is always included unless excluded.
+   *
+   * @param  {Array<string> | string | ProjectionType} fields
+   * @returns Query
+   */
+  select(fields: Array<string> | string | ProjectionType): this {
+    if (typeof fields === 'string') {
+      fields = fields.split(' ').filter(Boolean);
+    }
+
+    if (Array.isArray(fields)) {
+      this.projection = fields.reduce((projection: ProjectionType, field) => {
+        if (field.startsWith('-')) {
+          projection[field.substring(1)] = 0;
+        } else {
+          projection[field] = 1;
+        }
+
+        return projection;
+      }, {});
+    } else {
+      this.projection = fields;
+    }
+
+    return this;
+  }
+
+  /**
+   * Replaces the ids of reference fields with the referenced records, arrays of ids with arrays of records.
+   * Accepts a field name, a space separated string or an array of field names.
+   *
+   * @param  {string | Array<string>} paths
+   * @returns Query
+   */
+  populate(paths: string | Array<string>): this {
+    this.populatePaths.push(...(Array.isArray(paths) ? paths : paths.split(' ').filter(Boolean)));
+    return this;
+  }
+
+  /**
+   * Executes the query
+   *
+   * @returns {Promise<R>} array of records or a single record for findOne
+   */
+  async exec(): Promise<R> {
+    return this.run();
+  }
+
+  /**
+   * Allows the query to be awaited directly
+   */
+  then<TResult1 = R, TResult2 = never>(
+    onfulfilled?: ((value: R) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.exec().then(onfulfilled, onrejected);
+  }
+}
@@ -0,0 +1,354 @@
+import * as http from 'http';
+
+import { CONSTANTS } from './Constants';
+import { SkewerDatabase } from './SkewerDatabase';
+import { RecordNotFoundError } from './SkewerError';
+import { SkewerModel } from './SkewerModel';
+import { FilterQuery, ServerOptions, SortType } from './types';
+import { fromExtendedValue, fromTextValue } from './utils/formatAlgo';
+
+// query string parameters of GET /:collection that are not field filters
+const queryParams = ['filter', 'sort', 'skip', 'limit'];
+const writeMethods = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// status codes of the errors of the models, other errors are answered with 500
+const errorStatus: { [name: string]: number } = {
+  HttpError: 400,
+  SyntaxError: 400,
+  SchemaValidationError: 400,
+  InvalidQueryError: 400,
+  RecordNotFoundError: 404,
+  DuplicateIdError: 409,
+  ReferenceIntegrityError: 409,
+  ConflictError: 409,
+  ReadOnlyError: 405,
+};
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Sends a JSON response
+ *
+ * @param  {http.ServerResponse} res
+ * @param  {number} status
+ * @param  {any} body
+ * @param  {http.OutgoingHttpHeaders} headers
+ * @returns void
+ */
+const sendJson = (
+  res: http.ServerResponse,
+  status: number,
+  body: any,
+  headers: http.OutgoingHttpHeaders = {}
+): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Parses JSON from a request body or a query string, Extended JSON values like { $date } become dates
+ *
+ * @param  {string} text
+ * @param  {string} name name of the value for the error message
+ * @returns any
+ * @throws HttpError if the text is no valid JSON
+ */
+const parseJson = (text: string, name: string): any => {
+  try {
+    return fromExtendedValue(JSON.parse(text));
+  } catch (error) {
+    throw new HttpError(400, `The ${name} is no valid JSON`);
+  }
+};
+
+/**
+ * Decodes a segment of the request path
+ *
+ * @param  {string} segment
+ * @returns string
+ * @throws HttpError if the segment is not correctly percent-encoded
+ */
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    throw new HttpError(400, `The path segment ${segment} is not correctly percent-encoded`);
+  }
+};
+
+/**
+ * Reads the JSON body of a request
+ *
+ * @param  {http.IncomingMessage} req
+ * @param  {number} maxBodySize
+ * @returns Promise<any>
+ * @throws HttpError if the body is too large, no valid JSON or no object
+ */
+const readBody = async (req: http.IncomingMessage, maxBodySize: number): Promise<any> => {
+  const chunks: Array<Buffer> = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBodySize) {
+      throw new HttpError(413, `The request body is larger than ${maxBodySize} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const body = parseJson(Buffer.concat(chunks).toString('utf-8') || '{}', 'request body');
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'The request body has to be a JSON object');
+  }
+
+  return body;
+};
+
+/**
+ * Parses the sort of a query string, either JSON like {"age":-1} or a list of fields like -age,name
+ *
+ * @param  {string} value
+ * @returns SortType
+ */
+const parseSort = (value: string): SortType => {
+  if (value.trim().startsWith('{')) {
+    return parseJson(value, 'sort');
+  }
+
+  const fields = value.split(',').filter((x) => x);
+  return Object.fromEntries(
+    fields.map((field) => (field.startsWith('-') ? [field.slice(1), -1] : [field.replace(/^\+/, ''), 1]))
+  );
+};
+
+/**
+ * Parses the skip or limit of a query string
+ *
+ * @param  {string | null} value
+ * @param  {string} name
+ * @returns number | undefined
+ * @throws HttpError if the value is no non-negative integer
+ */
+const parseCount = (value: string | null, name: string): number | undefined => {
+  if (value === null) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (!value || !Number.isInteger(count) || count < 0) {
+    throw new HttpError(400, `The parameter ${name} has to be a non-negative integer`);
+  }
+
+  return count;
+};
+
+/**
+ * Builds the filter of a query string from the filter parameter and the field parameters like ?name=Ann, whose
+ * values are converted to the types of the schema
+ *
+ * @param  {URLSearchParams} params
+ * @param  {SkewerModel<any>} model
+ * @returns FilterQuery
+ */
+const parseFilter = (params: URLSearchParams, model: SkewerModel<any>): FilterQuery => {
+  const filter: FilterQuery = params.has('filter') ? parseJson(params.get('filter') as string, 'filter') : {};
+  const fields = [...new Set(params.keys())].filter((key) => !queryParams.includes(key));
+
+  for (const field of fields) {
+    const values = params
+      .getAll(field)
+      .map((value) => (field === 'id' ? value : fromTextValue(value, model.getSchema(), field)))
+      .filter((value) => value !== undefined);
+
+    if (values.length) {
+      filter[field] = values.length === 1 ? values[0] : { $in: values };
+    }
+  }
+
+  return filter;
+};
+
+/**
+ * Returns the body of a PUT request as an update that replaces the record, fields that are not in the body are
+ * removed. The id and the timestamps are kept.
+ *
+ * @param  {any} record the current record
+ * @param  {any} body
+ * @returns any
+ * @throws HttpError if the body holds update operators
+ */
+const toReplacement = (record: any, body: any): any => {
+  if (Object.keys(body).some((key) => key.startsWith('$'))) {
+    throw new HttpError(400, 'Update operators are only supported by PATCH');
+  }
+
+  const fields = Object.fromEntries(
+    Object.entries(body).filter(([key]) => !CONSTANTS.ignoredDBRecordKeys.includes(key))
+  );
+  const removedFields = Object.keys(record).filter(
+    (key) => !CONSTANTS.ignoredDBRecordKeys.includes(key) && !(key in fields)
+  );
+
+  return {
+    ...(Object.keys(fields).length ? { $set: fields } : {}),
+    ...(removedFields.length ? { $unset: Object.fromEntries(removedFields.map((key) => [key, ''])) } : {}),
+  };
+};
+
+/**
+ * Creates an HTTP server with CRUD endpoints for every collection:
+ * GET and POST /:collection, GET, PATCH, PUT and DELETE /:collection/:id, and GET / for the collection names.
+ * GET /:collection takes the filter, sort, skip and limit query parameters and field filters like ?name=Ann, and
+ * returns the number of matching records in the X-Total-Count header.
+ * The models are initialized on their first request, call listen on the server to start it.
+ *
+ * @param  {SkewerDatabase | Array<SkewerModel<any>>} source a database, whose registered models are exposed, or models
+ * @param  {ServerOptions} options
+ * @returns http.Server
+ */
+export const createServer = (
+  source: SkewerDatabase | Array<SkewerModel<any>>,
+  options: ServerOptions = {}
+): http.Server => {
+  const initializedModels = new Map<SkewerModel<any>, Promise<SkewerModel<any>>>();
+  const maxBodySize = options.maxBodySize ?? CONSTANTS.maxRequestBodySize;
+  const corsHeaders: http.OutgoingHttpHeaders = {};
+
+  if (options.cors) {
+    corsHeaders['Access-Control-Allow-Origin'] = options.cors === true ? '*' : options.cors;
+    corsHeaders['Access-Control-Allow-Methods'] = options.readOnly
+      ? 'GET, OPTIONS'
+      : 'GET, POST, PUT, PATCH, DELETE, OPTIONS';
+    corsHeaders['Access-Control-Allow-Headers'] = 'Content-Type';
+    corsHeaders['Access-Control-Expose-Headers'] = 'X-Total-Count';
+  }
+
+  const getModels = (): Array<SkewerModel<any>> => (Array.isArray(source) ? source : source.getModels());
+
+  const openModel = (name: string): Promise<SkewerModel<any>> => {
+    const model = getModels().find((x) => x.name === name);
+
+    if (!model) {
+      throw new HttpError(404, `The collection ${name} does not exist`);
+    }
+    if (!initializedModels.has(model)) {
+      const initialized = model.initialize();
+      // a failed initialize is tried again by the next request
+      initialized.catch(() => initializedModels.delete(model));
+      initializedModels.set(model, initialized);
+    }
+
+    return initializedModels.get(model) as Promise<SkewerModel<any>>;
+  };
+
+  const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const method = req.method || 'GET';
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [name, id, ...rest] = url.pathname
+      .split('/')
+      .filter((x) => x)
+      .map(decodeSegment);
+
+    if (method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+    if (options.readOnly && writeMethods.includes(method)) {
+      throw new HttpError(405, 'The server is read-only');
+    }
+    if (rest.length) {
+      throw new HttpError(404, `No route for ${url.pathname}`);
+    }
+
+    if (!name) {
+      if (method !== 'GET') throw new HttpError(405, `${method} is not supported for /`);
+
+      return sendJson(
+        res,
+        200,
+        getModels().map((x) => x.name),
+        corsHeaders
+      );
+    }
+
+    const model = await openModel(name);
+
+    if (id === undefined) {
+      switch (method) {
+        case 'GET': {
+          const filter = parseFilter(url.searchParams, model);
+          const query = model.find(filter);
+          const skip = parseCount(url.searchParams.get('skip'), 'skip'),
+            limit = parseCount(url.searchParams.get('limit'), 'limit');
+
+          if (url.searchParams.has('sort')) query.sort(parseSort(url.searchParams.get('sort') as string));
+          if (skip !== undefined) query.skip(skip);
+          if (limit !== undefined) query.limit(limit);
+
+          const records = await query.exec();
+          return sendJson(res, 200, records, { ...corsHeaders, 'X-Total-Count': model.countDocuments(filter) });
+        }
+        case 'POST': {
+          const { id: recordId, ...record } = await readBody(req, maxBodySize);
+          return sendJson(res, 201, await model.insertOne(record, recordId), corsHeaders);
+        }
+        default:
+          throw new HttpError(405, `${method} is not supported for /${name}`);
+      }
+    }
+
+    switch (method) {
+      case 'GET': {
+        const record = model.findById(id);
+        if (!record) throw new RecordNotFoundError();
+
+        return sendJson(res, 200, record, corsHeaders);
+      }
+      case 'PATCH':
+        return sendJson(res, 200, await model.updateById(id, await readBody(req, maxBodySize)), corsHeaders);
+      case 'PUT': {
+        const body = await readBody(req, maxBodySize);
+        const record = model.findById(id);
+        const replacement = toReplacement(record || {}, body);
+
+        // PUT creates the record if it does not exist
+        if (!record) {
+          return sendJson(res, 201, await model.insertOne(body, id), corsHeaders);
+        }
+
+        return sendJson(res, 200, await model.updateById(id, replacement), corsHeaders);
+      }
+      case 'DELETE':
+        return sendJson(res, 200, await model.deleteById(id), corsHeaders);
+      default:
+        throw new HttpError(405, `${method} is not supported for /${name}/:id`);
+    }
+  };
+
+  return http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      const status = error.status ?? errorStatus[error.name] ?? 500;
+
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+
+      sendJson(
+        res,
+        status,
+        { error: error.name, message: error.message, ...(error.errors ? { errors: error.errors } : {}) },
+        corsHeaders
+      );
+    });
+  });
+};
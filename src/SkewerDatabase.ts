@@ -0,0 +1,263 @@
+import { SkewerModel } from './SkewerModel';
+import { ModelRegistrationError, ReadOnlyError } from './SkewerError';
+import { FileStorageAdapter } from './Storage';
+import {
+  BackupManifest,
+  BackupOptions,
+  CompressionFormat,
+  DatabaseStats,
+  EncryptionKey,
+  ISkewerModel,
+  ModelOptions,
+  SchemaType,
+  StorageAdapter,
+} from './types';
+import { listBackups, pruneBackups, readBackup, writeBackup } from './utils/backupAlgo';
+
+export class SkewerDatabase {
+  private storage: StorageAdapter;
+  private options: ModelOptions;
+  private models: Map<string, SkewerModel<any>>;
+  // models that were initialized by connect and not closed since
+  private connectedModels: Set<SkewerModel<any>>;
+
+  /**
+   * Default constructor
+   *
+   * @param {string | StorageAdapter} storage Custom path to use for data store in disk, defaults to
+   * "process.cwd()/storage", or a storage adapter like MemoryStorageAdapter
+   * @param {ModelOptions} options Default storage options of the models, can be overridden per model
+   */
+  constructor(storage: string | StorageAdapter = `${process.cwd()}/storage`, options: ModelOptions = {}) {
+    this.storage = typeof storage === 'string' ? new FileStorageAdapter(storage) : storage;
+    this.options = options;
+    this.models = new Map();
+    this.connectedModels = new Set();
+  }
+
+  /**
+   * Returns the model registered under the name, registering it first if a schema is given.
+   * Every call with the same name returns the same instance, so all modules share one cache per collection.
+   *
+   * @param  {string} name Name of the model
+   * @param  {SchemaType} schema Schema of the model, only needed for the first call
+   * @param  {ModelOptions} options Storage options of the model, merged with the options of the database
+   * @returns SkewerModel<T>
+   * @throws ModelRegistrationError if the model is not registered and no schema is given, or if it is registered
+   * with a different schema
+   */
+  model<T extends ISkewerModel>(name: string, schema?: SchemaType, options: ModelOptions = {}): SkewerModel<T> {
+    const registeredModel = this.models.get(name);
+
+    if (registeredModel) {
+      if (schema && schema !== registeredModel.getSchema()) {
+        throw new ModelRegistrationError(name, 'is already registered with a different schema');
+      }
+
+      return registeredModel;
+    }
+    if (!schema) {
+      throw new ModelRegistrationError(name, 'is not registered');
+    }
+
+    const model = new SkewerModel<T>(name, schema, this.storage, { ...this.options, ...options });
+    model.attachDatabase(this);
+    this.models.set(name, model);
+
+    return model;
+  }
+
+  /**
+   * Returns the registered models
+   *
+   * @returns Array<SkewerModel<any>>
+   */
+  getModels(): Array<SkewerModel<any>> {
+    return [...this.models.values()];
+  }
+
+  /**
+   * Initializes every registered model that is not initialized yet. Models registered later are initialized by the
+   * next call.
+   *
+   * @returns Promise<SkewerDatabase>
+   */
+  async connect(): Promise<SkewerDatabase> {
+    await this.storage.init();
+
+    for (const model of this.models.values()) {
+      if (!this.connectedModels.has(model)) {
+        await model.initialize();
+        this.connectedModels.add(model);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Waits for running transactions, saves the pending changes of every model and stops their TTL sweepers
+   *
+   * @returns Promise
+   */
+  async close(): Promise<void> {
+    for (const model of this.models.values()) {
+      await model.close();
+    }
+
+    this.connectedModels.clear();
+  }
+
+  /**
+   * Lists the names of the registered models and of the collections found in the storage
+   *
+   * @returns Promise<Array<string>>
+   */
+  async listCollections(): Promise<Array<string>> {
+    const names = new Set(this.models.keys());
+
+    for (const key of await this.storage.list()) {
+      if (key.endsWith('.json') && !key.endsWith('_index.json') && !key.endsWith('_meta.json')) {
+        names.add(key.slice(0, -'.json'.length));
+      }
+    }
+
+    return [...names].sort();
+  }
+
+  /**
+   * Removes the files of a collection from the storage and unregisters its model
+   *
+   * @param  {string} name
+   * @returns Promise<boolean> true if the collection existed
+   * @throws ReadOnlyError if the database or the model is opened read-only
+   */
+  async dropCollection(name: string): Promise<boolean> {
+    if (this.options.readOnly) {
+      throw new ReadOnlyError(name);
+    }
+
+    const isFound = (await this.listCollections()).includes(name);
+    // collections that were never registered are dropped through a temporary model over their files
+    const model = this.models.get(name) || new SkewerModel(name, {}, this.storage, this.options);
+
+    await model.drop();
+    this.models.delete(name);
+    this.connectedModels.delete(model);
+
+    return isFound;
+  }
+
+  /**
+   * Rewrites the files of every registered model encrypted with a new key, see SkewerModel.rekey. Models registered
+   * later use the new key as well.
+   *
+   * @param  {EncryptionKey} encryptionKey the new key, or undefined to store the files unencrypted
+   * @returns Promise
+   */
+  async rekey(encryptionKey?: EncryptionKey): Promise<void> {
+    for (const model of this.models.values()) {
+      await model.rekey(encryptionKey);
+    }
+
+    this.options = { ...this.options, encryptionKey };
+  }
+
+  /**
+   * Rewrites the files of every registered model with another compression, see SkewerModel.setCompression.
+   * Models registered later use the new compression as well.
+   *
+   * @param  {CompressionFormat} compression
+   * @returns Promise
+   */
+  async setCompression(compression?: CompressionFormat): Promise<void> {
+    for (const model of this.models.values()) {
+      await model.setCompression(compression);
+    }
+
+    this.options = { ...this.options, compression };
+  }
+
+  /**
+   * Writes a point in time copy of the collections of the registered models to a new directory of the target
+   * directory, with a manifest that holds the checksums of the files. Models that are not initialized yet are
+   * initialized first. Waits until no transaction runs on the models, so that a transaction is either part of the
+   * backup or not at all.
+   *
+   * @param  {string} targetDir directory that holds the backups
+   * @param  {BackupOptions} options use { keep: n } to only keep the n newest backups of the target directory
+   * @returns {Promise<BackupManifest>} the manifest of the backup
+   */
+  async backup(targetDir: string, options: BackupOptions = {}): Promise<BackupManifest> {
+    const models = [...this.models.values()];
+
+    // a model that was never loaded would be backed up as an empty collection
+    for (const model of models) {
+      if (!model.isInitialized()) await model.initialize();
+    }
+
+    // another transaction may start on one of the models while waiting for the previous one
+    while (models.some((model) => model.getTransaction())) {
+      await Promise.all(models.map((model) => model.waitForTransaction()));
+    }
+
+    // the collections are copied from memory without waiting in between, so they are consistent with each other
+    const manifest = await writeBackup(
+      targetDir,
+      models.map((model) => model.captureSnapshot())
+    );
+
+    if (options.keep !== undefined) {
+      await pruneBackups(targetDir, options.keep);
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Lists the backups of a target directory, oldest first
+   *
+   * @param  {string} targetDir directory that holds the backups
+   * @returns Promise<Array<BackupManifest>>
+   */
+  async listBackups(targetDir: string): Promise<Array<BackupManifest>> {
+    return listBackups(targetDir);
+  }
+
+  /**
+   * Restores the collections of a backup written by backup. All files are verified against the manifest before
+   * the first collection is restored. The models of the collections have to be registered.
+   *
+   * @param  {string} backupDir directory of the backup, i.e. the target directory joined with the manifest name
+   * @returns Promise
+   * @throws SnapshotError | ModelRegistrationError
+   */
+  async restore(backupDir: string): Promise<void> {
+    const snapshots = await readBackup(backupDir);
+    const models = snapshots.map((snapshot) => this.model(snapshot.name));
+
+    for (const [i, model] of models.entries()) {
+      await model.restore(snapshots[i]);
+    }
+  }
+
+  /**
+   * Returns the number of records and the size of the files of every registered model
+   *
+   * @returns Promise<DatabaseStats>
+   */
+  async stats(): Promise<DatabaseStats> {
+    const collections = [];
+
+    for (const model of this.models.values()) {
+      collections.push(await model.stats());
+    }
+
+    return {
+      location: this.storage.location,
+      records: collections.reduce((sum, x) => sum + x.records, 0),
+      size: collections.reduce((sum, x) => sum + x.size, 0),
+      collections,
+    };
+  }
+}
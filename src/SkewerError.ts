@@ -1,3 +1,5 @@
+import { SchemaValidationFailure } from './types';
+
 export class SkewerError extends Error {
   constructor(message: string) {
     super(message);
@@ -8,9 +10,14 @@ export class SkewerError extends Error {
 }
 
 export class SchemaValidationError extends SkewerError {
-  constructor(key: string, criteria: string) {
-    super(`The field ${key} is invalid and fails the criteria ${criteria}!`);
+  readonly errors: Array<SchemaValidationFailure>;
+
+  constructor(errors: Array<SchemaValidationFailure>) {
+    super(
+      errors.map(({ path, criteria }) => `The field ${path} is invalid and fails the criteria ${criteria}!`).join(' ')
+    );
     this.name = 'SchemaValidationError';
+    this.errors = errors;
   }
 }
 
@@ -34,3 +41,80 @@ export class DuplicateIdError extends SkewerError {
     this.name = 'DuplicateIdError';
   }
 }
+
+export class InvalidQueryError extends SkewerError {
+  constructor(operator: string) {
+    super(`The query operator ${operator} is not supported!`);
+    this.name = 'InvalidQueryError';
+  }
+}
+
+export class TransactionError extends SkewerError {
+  constructor(reason: string) {
+    super(`Transaction failed, ${reason}!`);
+    this.name = 'TransactionError';
+  }
+}
+
+export class ModelRegistrationError extends SkewerError {
+  constructor(name: string, reason: string) {
+    super(`The model ${name} ${reason}!`);
+    this.name = 'ModelRegistrationError';
+  }
+}
+
+export class MigrationError extends SkewerError {
+  constructor(reason: string) {
+    super(`Migration failed, ${reason}!`);
+    this.name = 'MigrationError';
+  }
+}
+
+export class IndexError extends SkewerError {
+  constructor(name: string, reason: string) {
+    super(`The index ${name} ${reason}!`);
+    this.name = 'IndexError';
+  }
+}
+
+export class ReferenceIntegrityError extends SkewerError {
+  constructor(reason: string) {
+    super(`Reference check failed, ${reason}!`);
+    this.name = 'ReferenceIntegrityError';
+  }
+}
+
+export class LockError extends SkewerError {
+  constructor(key: string) {
+    super(`Timed out waiting for the lock ${key}!`);
+    this.name = 'LockError';
+  }
+}
+
+export class ConflictError extends SkewerError {
+  constructor(name: string) {
+    super(`The collection ${name} was changed by another process, reload it before writing!`);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ReadOnlyError extends SkewerError {
+  constructor(name: string) {
+    super(`The collection ${name} is opened read-only!`);
+    this.name = 'ReadOnlyError';
+  }
+}
+
+export class EncryptionError extends SkewerError {
+  constructor(reason: string) {
+    super(`Encryption failed, ${reason}!`);
+    this.name = 'EncryptionError';
+  }
+}
+
+export class SnapshotError extends SkewerError {
+  constructor(reason: string) {
+    super(`Invalid snapshot, ${reason}!`);
+    this.name = 'SnapshotError';
+  }
+}
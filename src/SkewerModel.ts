@@ -1,239 +1,2212 @@
 import { randomUUID } from 'crypto';
-
-import { SchemaValidationError, RecordNotFoundError, FileLoadError, DuplicateIdError } from './SkewerError';
-import { DataCacheType, IndexCache, ISkewerModel, SchemaType } from './types';
+import { once } from 'events';
+import { Readable, Writable } from 'stream';
+
+import {
+  SchemaValidationError,
+  RecordNotFoundError,
+  FileLoadError,
+  DuplicateIdError,
+  TransactionError,
+  MigrationError,
+  IndexError,
+  ModelRegistrationError,
+  ReferenceIntegrityError,
+  ConflictError,
+  ReadOnlyError,
+  EncryptionError,
+  SnapshotError,
+} from './SkewerError';
+import {
+  ChangeEvent,
+  CollectionSnapshot,
+  DataFormat,
+  CollectionStats,
+  CompressionFormat,
+  DataCacheType,
+  DeleteResult,
+  EncryptionKey,
+  ExportOptions,
+  FilterQuery,
+  HookEvent,
+  HookFunction,
+  IndexCache,
+  IndexDefinition,
+  IndexMismatch,
+  IndexOptions,
+  IndexVerifyReport,
+  ImportOptions,
+  ImportReport,
+  InitializeOptions,
+  ISkewerModel,
+  JournalEntry,
+  JournalOptions,
+  MigrateOptions,
+  Migration,
+  MigrationReport,
+  ModelHooks,
+  ModelMetadata,
+  ModelOptions,
+  ModelState,
+  PipelineStage,
+  SchemaReference,
+  SchemaTtlField,
+  SchemaType,
+  SearchOptions,
+  SearchResult,
+  StorageAdapter,
+  TextIndexEntries,
+  UpdateOptions,
+  UpdateQuery,
+  UpdateResult,
+} from './types';
 import { booleanIsTrue } from './utils';
-import { FileStorage } from './Storage';
+import { aggregate as aggregateRecords } from './utils/aggregateAlgo';
+import { checksum, verifySnapshot } from './utils/backupAlgo';
+import { compress, compressionOf, decompress } from './utils/compressionAlgo';
+import { createSalt, decrypt, encrypt, isEncrypted, resolveEncryptionKey } from './utils/cryptoAlgo';
+import {
+  csvFields,
+  fromExtendedJson,
+  readCsvRows,
+  readLines,
+  recordFromCsv,
+  recordToCsv,
+  toCsvRow,
+  toExtendedJson,
+} from './utils/formatAlgo';
+import { find as findRecords, isEqual, isOperatorObject, validateFilter } from './utils/searchAlgo';
+import { applyUpdate, deepClone, diffFields, getValue, setValue } from './utils/updateAlgo';
+import {
+  addToIndex as addIndexEntries,
+  buildIndex,
+  entriesByKey,
+  hashEntryIds,
+  indexKeys,
+  indexName,
+  isSameIndex,
+  removeFromIndex as removeIndexEntries,
+  schemaIndexes,
+} from './utils/indexAlgo';
+import { applyDefaults, castRecord, schemaReferences, schemaTtlFields, validateRecord } from './utils/schemaAlgo';
+import { scoreTextIndex, tokenize } from './utils/textAlgo';
+import { FileStorageAdapter } from './Storage';
+import { Query } from './Query';
+import { ChangeStream } from './ChangeStream';
+import { Transaction } from './Transaction';
+import type { SkewerDatabase } from './SkewerDatabase';
 import { CONSTANTS } from './Constants';
 
 export class SkewerModel<T extends ISkewerModel> {
+  readonly name: string;
   private schema: SchemaType;
-  private path: string;
-  private basePath: string;
-  private isTxnOpen: boolean;
+  private storage: StorageAdapter;
+  private transaction?: Transaction;
+  // resolves when the current transaction is finished
+  private transactionFinished: Promise<void>;
+  private resolveTransactionFinished: () => void;
   private dataCache: DataCacheType<T>;
   // { "indexedField": { "indexedFieldValue": ["database_id_1", "database_id_2"] } }
   private indexCache: IndexCache;
   private isIndexDirty: boolean;
+  private writeQueue: Promise<void>;
+  private options: ModelOptions;
+  // ids of the records changed since the last save, used to write the journal
+  private dirtyIds: Set<string>;
+  // saved versions of the records changed since the last save, undefined for new records, used to undo the
+  // changes of a save that fails with a ConflictError
+  private savedRecords: Map<string, T | undefined>;
+  private isCleared: boolean;
+  // set once the collection is loaded by initialize
+  private isLoaded: boolean;
+  private journalSize: number;
+  private snapshotSize: number;
+  // id of the snapshot that was loaded or last written, tells if another process rewrote the files since
+  private snapshotId?: string;
+  // key of the cipher resolved from the encryptionKey option on initialize
+  private cipherKey?: Buffer;
+  // salt the cipher key was resolved with, stored in the metadata file
+  private salt?: string;
+  // schema version of the loaded records
+  private dataVersion: number;
+  private indexes: Array<IndexDefinition>;
+  private hooks: ModelHooks<T>;
+  private changeStreams: Set<ChangeStream<T>>;
+  // change events waiting for their change to be saved, numbered in the order of the changes
+  private pendingChanges: Array<{ sequence: number; event: ChangeEvent<T> }>;
+  private changeSequence: number;
+  private references: Array<SchemaReference>;
+  // the database the model is registered with, used to find the referenced models
+  private database?: SkewerDatabase;
+  // fields whose date sets when a record expires, the expireAt field unless the schema defines it
+  private ttlFields: Array<SchemaTtlField>;
+  // time the next record expires at, 0 if it has to be looked up again
+  private nextExpiry: number;
+  // number of records that expired in memory and are not yet removed from the files by sweep
+  private expiredCount: number;
+  private sweeper?: NodeJS.Timeout;
 
   /**
    * Default constructor
    *
    * @param {string} name Name of the model
    * @param {SchemaType} schema Schema of the model
-   * @param {string} basePath Custom path to use for data store in disk, defaults to "process.cwd()/storage"
+   * @param {string | StorageAdapter} storage Custom path to use for data store in disk, defaults to
+   * "process.cwd()/storage", or a storage adapter like MemoryStorageAdapter
+   * @param {ModelOptions} options Storage options of the model
    */
-  constructor(name: string, schema: SchemaType, basePath = `${process.cwd()}/storage`) {
-    this.basePath = basePath;
-    this.path = `${basePath}/${name}`;
+  constructor(
+    name: string,
+    schema: SchemaType,
+    storage: string | StorageAdapter = `${process.cwd()}/storage`,
+    options: ModelOptions = {}
+  ) {
+    this.name = name;
+    this.storage = typeof storage === 'string' ? new FileStorageAdapter(storage) : storage;
     this.schema = schema;
+    this.options = options;
     this.dataCache = {};
-    this.isTxnOpen = false;
+    this.transactionFinished = Promise.resolve();
+    this.resolveTransactionFinished = () => undefined;
     this.isIndexDirty = false;
     this.indexCache = {};
+    this.writeQueue = Promise.resolve();
+    this.dirtyIds = new Set();
+    this.savedRecords = new Map();
+    this.isCleared = false;
+    this.isLoaded = false;
+    this.journalSize = 0;
+    this.snapshotSize = 0;
+    this.dataVersion = this.targetVersion();
+    this.indexes = schemaIndexes(schema);
+    this.hooks = {
+      pre: { validate: [], save: [], update: [], delete: [] },
+      post: { validate: [], save: [], update: [], delete: [] },
+    };
+    this.changeStreams = new Set();
+    this.pendingChanges = [];
+    this.changeSequence = 0;
+    this.references = schemaReferences(schema);
+    this.ttlFields = schemaTtlFields(schema);
+    if (!this.ttlFields.some((x) => x.path === CONSTANTS.expireAtField)) {
+      this.ttlFields.push({ path: CONSTANTS.expireAtField, expires: 0 });
+    }
+    this.nextExpiry = Infinity;
+    this.expiredCount = 0;
   }
 
   // #region private methods
   /**
-   * Loads the json data file into memory from disk
+   * Loads the json data file into memory from disk. Indexes that are new or changed since the last save, e.g. after
+   * an index was added to the schema, are built from the records and indexes that are no longer defined are removed.
    *
    * @private
-   * @returns Promise<void>
+   * @returns {Promise<boolean>} true if the metadata, the indexes or the compression changed and have to be saved
    * @throws FileLoadError
    */
-  private async loadFile(): Promise<void> {
+  private async loadFile(): Promise<boolean> {
+    const metadata = await this.loadMetadata();
+
+    // another process may have rekeyed the collection with a new salt
+    if (metadata?.salt && metadata.salt !== this.salt) {
+      await this.resolveCipherKey(metadata.salt);
+    }
+
     let fileData: string, indexFileData: string;
     try {
-      fileData = await FileStorage.read(`${this.path}.json`);
-      indexFileData = await FileStorage.read(`${this.path}_index.json`);
+      // a collection that was never written, e.g. opened read-only, or dropped by another process is empty
+      fileData = (await this.storage.exists(`${this.name}.json`))
+        ? await this.storage.read(`${this.name}.json`)
+        : this.encodeFile(`${this.name}.json`, '{}');
+      indexFileData = (await this.storage.exists(`${this.name}_index.json`))
+        ? await this.storage.read(`${this.name}_index.json`)
+        : this.encodeFile(`${this.name}_index.json`, '{}');
+    } catch (error) {
+      throw new FileLoadError(`${this.name}.json`);
+    }
+
+    const storedSize = fileData.length;
+    const decryptedData = this.decryptFile(`${this.name}.json`, fileData);
+    // files stored with another compression than the one of the options are converted by the next snapshot
+    const isCompressionChanged = compressionOf(decryptedData) !== this.options.compression;
+    fileData = decompress(decryptedData, `${this.name}.json`);
+    indexFileData = this.decodeFile(`${this.name}_index.json`, indexFileData);
+
+    try {
+      const records: { [id: string]: T } = JSON.parse(fileData);
+      const indexCache: IndexCache = JSON.parse(indexFileData);
+
+      Object.values(records).forEach((record) => castRecord(record, this.schema));
+
+      this.dataCache = records;
+      this.indexCache = indexCache;
+      this.snapshotSize = storedSize;
+    } catch (error) {
+      throw new FileLoadError(`${this.name}.json`);
+    }
+
+    this.dirtyIds.clear();
+    this.savedRecords.clear();
+    this.isCleared = false;
+    this.snapshotId = metadata?.snapshotId;
+    const definedIndexes = schemaIndexes(this.schema);
+    // a model without a schema, e.g. opened by the command line tool, keeps the indexes of the schema it was saved with
+    const isSchemaless = Object.keys(this.schema).length === 0;
+    this.indexes = [
+      ...definedIndexes,
+      // indexes created with createIndex
+      ...(metadata?.indexes || []).filter(
+        (x) => (isSchemaless || !x.schema) && !definedIndexes.some((y) => y.name === x.name)
+      ),
+    ];
+
+    await this.replayJournal();
+
+    // collections written before versioning was added are at version 1, new collections start at the model version
+    this.dataVersion = metadata?.version ?? (Object.keys(this.dataCache).length ? 1 : this.targetVersion());
+
+    const staleIndexes = this.indexes.filter(
+      (index) => !this.indexCache[index.name] || !metadata?.indexes?.some((x) => isSameIndex(x, index))
+    );
+    staleIndexes.forEach((index) => (this.indexCache[index.name] = buildIndex(index, Object.values(this.dataCache))));
+
+    const removedIndexes = Object.keys(this.indexCache).filter((name) => !this.indexes.some((x) => x.name === name));
+    removedIndexes.forEach((name) => delete this.indexCache[name]);
+
+    // records that expired while the collection was not loaded are hidden right away, sweep removes them
+    this.expiredCount = 0;
+    this.nextExpiry = 0;
+    this.expireRecords();
+    this.isLoaded = true;
+
+    return (
+      !metadata ||
+      metadata.salt !== this.salt ||
+      staleIndexes.length > 0 ||
+      removedIndexes.length > 0 ||
+      isCompressionChanged
+    );
+  }
+
+  /**
+   * Loads the metadata file with the schema version of the records and the index definitions
+   *
+   * @private
+   * @returns {Promise<ModelMetadata | undefined>} undefined if the collection has no metadata file yet
+   * @throws FileLoadError
+   */
+  private async loadMetadata(): Promise<ModelMetadata | undefined> {
+    const metaKey = `${this.name}_meta.json`;
+
+    if (!(await this.storage.exists(metaKey))) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(await this.storage.read(metaKey));
+    } catch (error) {
+      throw new FileLoadError(metaKey);
+    }
+  }
+
+  /**
+   * Returns the schema version of the model
+   *
+   * @private
+   * @returns number
+   */
+  private targetVersion(): number {
+    return this.options.version ?? 1;
+  }
+
+  /**
+   * Returns the chain of migrations from the version of the records to the version of the model
+   *
+   * @private
+   * @returns Array<Migration>
+   * @throws MigrationError
+   */
+  private pendingMigrations(): Array<Migration> {
+    const toVersion = this.targetVersion();
+    const migrations: Array<Migration> = [];
+    let version = this.dataVersion;
+
+    if (version > toVersion) {
+      throw new MigrationError(
+        `the collection has version ${version}, which is newer than the model version ${toVersion}`
+      );
+    }
+
+    while (version < toVersion) {
+      const migration = (this.options.migrations || []).find(
+        (x) => x.from === version && x.to > version && x.to <= toVersion
+      );
+
+      if (!migration) {
+        throw new MigrationError(`no migration from version ${version} found`);
+      }
+
+      migrations.push(migration);
+      version = migration.to;
+    }
+
+    return migrations;
+  }
+
+  /**
+   * Replays the changes in the journal file on top of the loaded snapshot. A partially written last entry,
+   * left by a crash during an append, is discarded and cut off the journal.
+   *
+   * @private
+   * @returns Promise<void>
+   * @throws FileLoadError
+   */
+  private async replayJournal(): Promise<void> {
+    const journalKey = `${this.name}_journal.ndjson`;
+
+    if (!(await this.storage.exists(journalKey))) {
+      this.journalSize = 0;
+      return;
+    }
+
+    const journalData = await this.storage.read(journalKey);
+    const lines = journalData.split('\n');
+    let validLength = 0;
+
+    for (const [lineNumber, line] of lines.entries()) {
+      if (!line.trim()) {
+        validLength += line.length + 1;
+        continue;
+      }
+
+      let entry: JournalEntry<T>;
+      try {
+        entry = JSON.parse(this.decodeFile(journalKey, line));
+      } catch (error) {
+        if (lines.slice(lineNumber + 1).some((x) => x.trim())) {
+          throw error.name === 'EncryptionError' ? error : new FileLoadError(journalKey);
+        }
+
+        await this.storage.truncate(journalKey, Buffer.byteLength(journalData.substring(0, validLength)));
+        break;
+      }
+
+      this.applyJournalEntry(entry);
+      validLength += line.length + 1;
+    }
+
+    this.journalSize = await this.storage.size(journalKey);
+  }
+
+  /**
+   * Applies one journal entry to the data and index caches
+   *
+   * @param  {JournalEntry<T>} entry
+   * @private
+   * @returns void
+   */
+  private applyJournalEntry(entry: JournalEntry<T>): void {
+    if (entry.op === 'batch') {
+      entry.entries.forEach((x) => this.applyJournalEntry(x));
+    } else if (entry.op === 'clear') {
+      this.dataCache = {};
+      this.indexCache = {};
+      this.isIndexDirty = true;
+    } else if (entry.op === 'delete') {
+      if (this.dataCache[entry.id]) {
+        this.deleteInIndex(this.dataCache[entry.id], entry.id);
+        delete this.dataCache[entry.id];
+      }
+    } else {
+      castRecord(entry.record, this.schema);
+
+      if (this.dataCache[entry.id]) {
+        this.updateInIndex(this.dataCache[entry.id], entry.record, entry.id);
+      } else {
+        this.addToIndex(entry.record, entry.id);
+      }
+
+      this.dataCache[entry.id] = entry.record;
+    }
+  }
+
+  /**
+   * Marks a record as changed so that it is written to the journal on the next save, and keeps its saved version
+   *
+   * @param  {string} id
+   * @param  {T | undefined} previousRecord the record before the change, undefined if it is new
+   * @private
+   * @returns void
+   */
+  private markDirty(id: string, previousRecord: T | undefined): void {
+    this.dirtyIds.add(id);
+
+    if (!this.savedRecords.has(id)) {
+      this.savedRecords.set(id, previousRecord);
+    }
+  }
+
+  /**
+   * Undoes the changes made since the last save, by restoring the saved versions of the changed records
+   *
+   * @private
+   * @returns void
+   */
+  private discardUnsavedChanges(): void {
+    this.savedRecords.forEach((savedRecord, id) => {
+      const record = this.dataCache[id];
+
+      if (record && savedRecord) {
+        this.updateInIndex(record, savedRecord, id);
+      } else if (record) {
+        this.deleteInIndex(record, id);
+      } else if (savedRecord) {
+        this.addToIndex(savedRecord, id);
+      }
+
+      if (savedRecord) {
+        this.dataCache[id] = savedRecord;
+      } else {
+        delete this.dataCache[id];
+      }
+    });
+
+    this.dirtyIds.clear();
+    this.savedRecords.clear();
+    this.isCleared = false;
+    this.expiredCount = 0;
+    // the events of discarded changes are never emitted
+    this.pendingChanges = [];
+    // restored records may have expired in the meantime
+    this.nextExpiry = 0;
+  }
+
+  /**
+   * Keeps a change event until the change is saved, if the model is watched
+   *
+   * @param  {ChangeEvent<T>} event
+   * @private
+   * @returns void
+   */
+  private recordChange(event: ChangeEvent<T>): void {
+    if (this.changeStreams.size) {
+      this.pendingChanges.push({ sequence: ++this.changeSequence, event });
+    }
+  }
+
+  /**
+   * Emits the change events up to a sequence number once their changes are saved
+   *
+   * @param  {number} sequence
+   * @private
+   * @returns void
+   */
+  private publishChanges(sequence: number): void {
+    const count = this.pendingChanges.findIndex((x) => x.sequence > sequence);
+    const changes = this.pendingChanges.splice(0, count === -1 ? this.pendingChanges.length : count);
+
+    this.emitChanges(changes.map((x) => x.event));
+  }
+
+  /**
+   * Passes the events to the change streams. They are emitted in a microtask, so that a throwing listener can not
+   * fail the write.
+   *
+   * @param  {Array<ChangeEvent<T>>} events
+   * @private
+   * @returns void
+   */
+  private emitChanges(events: Array<ChangeEvent<T>>): void {
+    if (events.length) {
+      queueMicrotask(() => events.forEach((event) => this.changeStreams.forEach((stream) => stream.push(event))));
+    }
+  }
+
+  /**
+   * Checks if the journal has grown beyond the compaction thresholds
+   *
+   * @private
+   * @returns boolean
+   */
+  private shouldCompact(): boolean {
+    const journalOptions: JournalOptions = typeof this.options.journal === 'object' ? this.options.journal : {};
+    const compactRatio = journalOptions.compactRatio ?? CONSTANTS.journalCompactRatio;
+
+    if (journalOptions.compactSize !== undefined && this.journalSize >= journalOptions.compactSize) {
+      return true;
+    }
+
+    return this.journalSize >= CONSTANTS.journalMinCompactSize && this.journalSize >= this.snapshotSize * compactRatio;
+  }
+
+  /**
+   * Saves the updated state of a collection to disk. The data and index files are written atomically and together,
+   * or only the changes are appended to the journal in journal mode. Writes are queued so that two saves never
+   * write the files at the same time.
+   *
+   * @private
+   */
+  private async saveFile(): Promise<void> {
+    if (!this.transaction) {
+      await this.enqueueWrite(() => (this.options.journal ? this.appendJournal() : this.writeFiles()));
+    }
+  }
+
+  /**
+   * Writes the current state of the data and index caches to disk as a new snapshot and empties the journal
+   *
+   * @private
+   */
+  private async writeFiles(): Promise<void> {
+    const { files, onWritten } = this.prepareSnapshot();
+
+    try {
+      await this.storage.writeMany(files, `${this.name}.commit`);
     } catch (error) {
-      throw new FileLoadError(`${this.path}.json`);
+      this.isIndexDirty = true;
+      throw error;
+    }
+
+    onWritten();
+  }
+
+  /**
+   * Appends the records changed since the last save to the journal, and compacts it once it gets too large
+   *
+   * @private
+   */
+  private async appendJournal(): Promise<void> {
+    const sequence = this.changeSequence;
+    const entries: Array<JournalEntry<T>> = this.isCleared ? [{ op: 'clear' }] : [];
+
+    this.dirtyIds.forEach((id) => {
+      entries.push(this.dataCache[id] ? { op: 'put', id, record: this.dataCache[id] } : { op: 'delete', id });
+    });
+
+    this.dirtyIds.clear();
+    this.savedRecords.clear();
+    this.isCleared = false;
+    this.expiredCount = 0;
+
+    if (entries.length) {
+      // a save with several changes is written as one batch line, so a crash can not leave half of it behind
+      const entry: JournalEntry<T> = entries.length > 1 ? { op: 'batch', entries } : entries[0];
+      // journal lines are too short to gain from compression
+      const journalData = `${this.encryptFile(`${this.name}_journal.ndjson`, JSON.stringify(entry))}\n`;
+
+      await this.storage.append(`${this.name}_journal.ndjson`, journalData);
+      this.journalSize += Buffer.byteLength(journalData);
+    }
+
+    this.publishChanges(sequence);
+
+    if (this.shouldCompact()) {
+      await this.writeFiles();
+    }
+  }
+
+  /**
+   * Validates the record against schema and throws error listing all failures if validation fails
+   *
+   * @param {T} record document to be validated
+   * @param {boolean} isUpdate ignores the record itself in the unique check
+   * @private
+   * @returns {void}
+   * @throws SchemaValidationError
+   */
+  private validateSchema(record: T, isUpdate = false): void {
+    const failures = validateRecord(record, this.schema);
+
+    this.indexes
+      .filter((index) => booleanIsTrue(index.unique) && this.hasDuplicate(record, index, isUpdate))
+      .forEach((index) => failures.push({ path: index.fields.join(', '), criteria: 'unique' }));
+
+    this.references.forEach((reference) => {
+      const referencedModel = this.getReferencedModel(reference.model);
+      const value = getValue(record, reference.path);
+      const ids: Array<[any, string]> = Array.isArray(value)
+        ? value.map((id, i) => [id, `${reference.path}.${i}`])
+        : [[value, reference.path]];
+
+      ids
+        .filter(([id]) => id !== undefined && id !== null && !referencedModel.findById(id))
+        .forEach(([, path]) => failures.push({ path, criteria: `ref ${reference.model}` }));
+    });
+
+    if (failures.length) {
+      throw new SchemaValidationError(failures);
+    }
+  }
+
+  /**
+   * Validates every record of a batch before any of them is applied, unique values also have to differ between the
+   * records of the batch
+   *
+   * @param {Array<T>} records documents to be validated
+   * @param {boolean} isUpdate ignores the records themselves in the unique check
+   * @private
+   * @returns {void}
+   * @throws SchemaValidationError
+   */
+  private validateBatch(records: Array<T>, isUpdate = false): void {
+    records.forEach((record) => this.validateSchema(record, isUpdate));
+
+    this.indexes
+      .filter((index) => booleanIsTrue(index.unique))
+      .forEach((index) => {
+        const seen = new Set<string>();
+
+        records.forEach((record) => {
+          const keys = indexKeys(record, index);
+
+          if (keys.some((key) => seen.has(key))) {
+            throw new SchemaValidationError([{ path: index.fields.join(', '), criteria: 'unique' }]);
+          }
+          keys.forEach((key) => seen.add(key));
+        });
+      });
+  }
+
+  /**
+   * Returns a model referenced by the schema
+   *
+   * @param  {string} name
+   * @private
+   * @returns SkewerModel<any>
+   * @throws ModelRegistrationError if the model is not registered with the database of this model
+   */
+  private getReferencedModel(name: string): SkewerModel<any> {
+    if (!this.database) {
+      throw new ModelRegistrationError(name, 'is not registered, references need models of a SkewerDatabase');
+    }
+
+    return this.database.model(name);
+  }
+
+  /**
+   * Returns a copy of the record with the referenced records in place of the ids, missing records are left out
+   * of arrays and become null otherwise
+   *
+   * @param  {T} record
+   * @param  {Array<string>} paths reference fields to populate
+   * @private
+   * @returns T
+   * @throws ReferenceIntegrityError if a field is not a reference
+   */
+  private populateRecord(record: T, paths: Array<string>): T {
+    const populated = deepClone(record);
+
+    paths.forEach((path) => {
+      const reference = this.references.find((x) => x.path === path);
+
+      if (!reference) {
+        throw new ReferenceIntegrityError(`the field ${path} of ${this.name} is not a reference`);
+      }
+
+      const referencedModel = this.getReferencedModel(reference.model);
+      const value = getValue(record, path);
+
+      if (Array.isArray(value)) {
+        setValue(populated, path, value.map((id) => referencedModel.findById(id)).filter(Boolean));
+      } else if (value !== undefined && value !== null) {
+        setValue(populated, path, referencedModel.findById(value) ?? null);
+      }
+    });
+
+    return populated;
+  }
+
+  /**
+   * Applies the onDelete rules of the models that refer to records about to be deleted. Nothing is changed if one
+   * of the referring records restricts the delete.
+   *
+   * @param  {Array<T>} deletedRecords
+   * @private
+   * @returns Promise
+   * @throws ReferenceIntegrityError if a referring record restricts the delete
+   */
+  private async applyDeleteRules(deletedRecords: Array<T>): Promise<void> {
+    const deletedIds = new Set(deletedRecords.map((x) => x.id));
+    const referrers = (this.database?.getModels() || [])
+      .flatMap((model) =>
+        model.references
+          .filter((reference) => reference.model === this.name)
+          .map((reference) => ({
+            model,
+            reference,
+            ids: model
+              .getAllRecords()
+              .filter((record) => {
+                const value = getValue(record, reference.path);
+                return (Array.isArray(value) ? value : [value]).some((id) => deletedIds.has(id));
+              })
+              // records deleted together with the referenced ones do not restrict the delete
+              .filter((record) => model !== this || !deletedIds.has(record.id))
+              .map((record) => record.id),
+          }))
+      )
+      .filter((x) => x.ids.length);
+
+    const restricting = referrers.find((x) => x.reference.onDelete === 'restrict');
+    if (restricting) {
+      throw new ReferenceIntegrityError(
+        `the record is still referenced by ${restricting.model.name}.${restricting.reference.path}`
+      );
+    }
+
+    for (const { model, reference, ids } of referrers) {
+      const filter = { id: { $in: ids } };
+
+      if (reference.onDelete === 'cascade') {
+        await model.deleteMany(filter);
+      } else if (reference.isArray) {
+        await model.updateMany(filter, { $pull: { [reference.path]: { $in: [...deletedIds] } } });
+      } else {
+        await model.updateMany(filter, { $set: { [reference.path]: null } });
+      }
+    }
+  }
+
+  /**
+   * Checks if deletes have to wait for hooks or onDelete rules before the records are removed
+   *
+   * @private
+   * @returns boolean
+   */
+  private hasDeleteRules(): boolean {
+    return (
+      this.hooks.pre.delete.length > 0 ||
+      !!this.database?.getModels().some((model) => model.references.some((x) => x.model === this.name))
+    );
+  }
+
+  /**
+   * Checks if another record has the same values for the fields of a unique index
+   *
+   * @param  {any} record
+   * @param  {IndexDefinition} index
+   * @param  {boolean} isUpdate ignores the record itself
+   * @private
+   * @returns boolean
+   */
+  private hasDuplicate(record: any, index: IndexDefinition, isUpdate = false): boolean {
+    const values = index.fields.map((field) => getValue(record, field));
+
+    if (index.sparse && values.every((x) => x === undefined || x === null)) {
+      return false;
     }
 
-    const records: { [id: string]: T } = JSON.parse(fileData);
-    this.dataCache = records;
+    // every item of an array value has to be unique
+    const filter = Object.fromEntries(
+      index.fields.map((field, i) => [field, Array.isArray(values[i]) ? { $in: values[i] } : values[i]])
+    );
+
+    return findRecords(filter, this.indexes, this.dataCache, this.indexCache).some(
+      (x: any) => !isUpdate || x.id !== record.id
+    );
+  }
 
-    this.indexCache = JSON.parse(indexFileData);
+  /**
+   * Adds a record to all indexes
+   *
+   * @param  {any} record the insert / update record data
+   * @param  {string} id id of the record being inserted / updated
+   * @private
+   * @returns void
+   */
+  private addToIndex(record: any, id: string): void {
+    this.isIndexDirty = true;
+    this.indexes.forEach((index) => addIndexEntries(this.indexCache, index, record, id));
+    this.scheduleExpiry(record);
+  }
+
+  /**
+   * Moves the record to its new keys in the indexes whose values changed
+   *
+   * @param  {any} oldRecord
+   * @param  {any} newRecord
+   * @param  {string} id
+   * @private
+   * @returns void
+   */
+  private updateInIndex(oldRecord: any, newRecord: any, id: string): void {
+    this.isIndexDirty = true;
+
+    this.indexes.forEach((index) => {
+      if (isEqual(indexKeys(oldRecord, index), indexKeys(newRecord, index))) {
+        return;
+      }
+
+      removeIndexEntries(this.indexCache, index, oldRecord, id);
+      addIndexEntries(this.indexCache, index, newRecord, id);
+    });
+    this.scheduleExpiry(newRecord);
+  }
+
+  /**
+   * Removes a deleted record from all indexes
+   *
+   * @param  {any} oldRecord
+   * @param  {string} id
+   * @private
+   * @returns void
+   */
+  private deleteInIndex(oldRecord: any, deleteId: string): void {
+    this.isIndexDirty = true;
+    this.indexes.forEach((index) => removeIndexEntries(this.indexCache, index, oldRecord, deleteId));
+  }
+
+  /**
+   * Makes sure that no transaction runs on the model before its indexes are changed, since they are saved at once
+   *
+   * @private
+   * @returns Promise
+   * @throws TransactionError
+   */
+  private async beforeIndexChange(): Promise<void> {
+    if (this.options.readOnly) {
+      throw new ReadOnlyError(this.name);
+    }
+
+    if (this.mustWaitForTransaction()) await this.waitForTransaction();
+
+    if (this.transaction) {
+      throw new TransactionError('indexes can not be changed inside of a transaction');
+    }
+  }
+
+  /**
+   * Runs the hooks of an event one after another in the order they were registered
+   *
+   * @param  {'pre' | 'post'} stage
+   * @param  {HookEvent} event
+   * @param  {T} record
+   * @param  {T} previousRecord the record before an update
+   * @private
+   * @returns Promise
+   */
+  private async runHooks(stage: 'pre' | 'post', event: HookEvent, record: T, previousRecord?: T): Promise<void> {
+    for (const hook of this.hooks[stage][event]) {
+      await hook(record, previousRecord);
+    }
+  }
+
+  /**
+   * Checks if hooks have to run before a record is written, writes without hooks stay synchronous
+   *
+   * @param  {'save' | 'update'} event
+   * @private
+   * @returns boolean
+   */
+  private hasWriteHooks(event: 'save' | 'update'): boolean {
+    return !!(this.hooks.pre.validate.length || this.hooks.post.validate.length || this.hooks.pre[event].length);
+  }
+
+  /**
+   * Runs the pre validate hooks, the validation with the post validate hooks, and the pre save / update hooks.
+   * The record is validated again right before it is written, since the hooks may change it.
+   *
+   * @param  {'save' | 'update'} event
+   * @param  {T} record
+   * @param  {T} previousRecord the record before an update
+   * @private
+   * @returns Promise
+   * @throws SchemaValidationError or the errors thrown by the hooks
+   */
+  private async beforeWrite(event: 'save' | 'update', record: T, previousRecord?: T): Promise<void> {
+    await this.runHooks('pre', 'validate', record, previousRecord);
+
+    if (this.hooks.post.validate.length) {
+      this.validateSchema(record, event === 'update');
+      await this.runHooks('post', 'validate', record, previousRecord);
+    }
+
+    await this.runHooks('pre', event, record, previousRecord);
+  }
+
+  /**
+   * Applies an update to the records, validates all of them and only then writes them to the cache and index
+   *
+   * @param  {Array<T>} records records to be updated
+   * @param  {Partial<T> | UpdateQuery} update
+   * @param  {boolean} touchUnmodified also sets updatedAt on records the update did not change
+   * @private
+   * @returns {Promise<Array<{ oldRecord: T; newRecord: T }>>} the updated records with their previous version
+   * @throws SchemaValidationError | InvalidQueryError
+   */
+  private async updateRecords(
+    records: Array<T>,
+    update: Partial<T> | UpdateQuery,
+    touchUnmodified = false
+  ): Promise<Array<{ oldRecord: T; newRecord: T }>> {
+    const changes = records
+      .map((oldRecord) => ({ oldRecord, newRecord: applyUpdate(oldRecord, update) }))
+      .filter(({ oldRecord, newRecord }) => touchUnmodified || !isEqual(oldRecord, newRecord));
+
+    for (const { oldRecord, newRecord } of changes) {
+      newRecord.updatedAt = new Date().toISOString();
+      castRecord(newRecord, this.schema);
+
+      if (this.hasWriteHooks('update')) await this.beforeWrite('update', newRecord, oldRecord);
+    }
+
+    this.validateBatch(
+      changes.map(({ newRecord }) => newRecord),
+      true
+    );
+    changes.forEach(({ oldRecord, newRecord }) => {
+      this.updateInIndex(oldRecord, newRecord, oldRecord.id);
+      this.dataCache[oldRecord.id] = newRecord;
+      this.markDirty(oldRecord.id, oldRecord);
+      this.recordChange({
+        operationType: 'update',
+        id: oldRecord.id,
+        document: newRecord,
+        previousDocument: oldRecord,
+        ...diffFields(oldRecord, newRecord),
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+   * Updates the matched records or upserts a new one if nothing matched, and saves the collection
+   *
+   * @param  {Array<T>} matchedRecords
+   * @param  {FilterQuery} filter
+   * @param  {Partial<T> | UpdateQuery} update
+   * @param  {UpdateOptions} options
+   * @private
+   * @returns {Promise<UpdateResult>}
+   * @throws SchemaValidationError | InvalidQueryError
+   */
+  private async updateMatched(
+    matchedRecords: Array<T>,
+    filter: FilterQuery,
+    update: Partial<T> | UpdateQuery,
+    options: UpdateOptions
+  ): Promise<UpdateResult> {
+    if (matchedRecords.length === 0 && options.upsert) {
+      // builds the new record from the equality conditions of the filter, like MongoDB does
+      const { id, ...baseRecord } = Object.fromEntries(
+        Object.entries(filter)
+          .filter(([key, value]) => !key.startsWith('$') && (!isOperatorObject(value) || value.$eq !== undefined))
+          .map(([key, value]) => [key, isOperatorObject(value) ? value.$eq : value])
+      );
+
+      const upsertedRecord = await this.insertOne(applyUpdate(baseRecord, update), id);
+
+      return { matchedCount: 0, modifiedCount: 0, upsertedId: upsertedRecord.id };
+    }
+
+    const changes = await this.updateRecords(matchedRecords, update);
+
+    if (changes.length) {
+      await this.saveFile();
+    }
+
+    for (const { oldRecord, newRecord } of changes) {
+      await this.runHooks('post', 'update', newRecord, oldRecord);
+    }
+
+    return { matchedCount: matchedRecords.length, modifiedCount: changes.length };
+  }
+
+  /**
+   * Returns the keys of the data, index and journal files of the model
+   *
+   * @private
+   * @returns Array<string>
+   */
+  private fileKeys(): Array<string> {
+    return [`${this.name}.json`, `${this.name}_index.json`, `${this.name}_journal.ndjson`, `${this.name}_meta.json`];
+  }
+
+  /**
+   * Checks if a write has to wait because a transaction of another caller is running on the model
+   *
+   * @private
+   * @returns boolean
+   */
+  private mustWaitForTransaction(): boolean {
+    return !!this.transaction && this.transaction.isScoped && Transaction.current() !== this.transaction;
+  }
+
+  /**
+   * Checks if a write has to be prepared with prepareWrite. Writes that do not have to wait change the records in
+   * memory right away, before the first await.
+   *
+   * @private
+   * @returns boolean
+   */
+  private mustPrepareWrite(): boolean {
+    return !!this.options.readOnly || this.mustWaitForTransaction() || (!!this.options.autoReload && !this.transaction);
+  }
+
+  /**
+   * Prepares a write before the records are changed in memory. Fails in read-only mode, waits for a transaction
+   * of another caller and reloads the collection if another process changed it and autoReload is set.
+   *
+   * @private
+   * @returns Promise
+   * @throws ReadOnlyError
+   */
+  private async prepareWrite(): Promise<void> {
+    if (this.options.readOnly) {
+      throw new ReadOnlyError(this.name);
+    }
+
+    if (this.mustWaitForTransaction()) await this.waitForTransaction();
+
+    if (this.options.autoReload && !this.transaction) {
+      await this.reload();
+    }
+  }
+
+  /**
+   * Checks if another process wrote the files of the collection since they were loaded or last written by this
+   * model, i.e. rewrote the snapshot or appended to the journal
+   *
+   * @private
+   * @returns Promise<boolean>
+   * @throws FileLoadError
+   */
+  private async hasExternalChanges(): Promise<boolean> {
+    const metadata = await this.loadMetadata();
+
+    return (
+      metadata?.snapshotId !== this.snapshotId ||
+      (await this.storage.size(`${this.name}_journal.ndjson`)) !== this.journalSize
+    );
+  }
+
+  /**
+   * Adds a callback to the write queue and runs it while holding the lock file of the collection
+   *
+   * @param  {Function} callback
+   * @private
+   * @returns {Promise<R>} the result of the callback
+   * @throws LockError
+   */
+  private enqueueLocked<R>(callback: () => Promise<R>): Promise<R> {
+    const lockKey = `${this.name}.lock`;
+    const queued = this.writeQueue.then(async () => {
+      await this.storage.lock?.(lockKey);
+
+      try {
+        return await callback();
+      } finally {
+        await this.storage.unlock?.(lockKey);
+      }
+    });
+    this.writeQueue = queued.then(
+      () => undefined,
+      () => undefined
+    );
+
+    return queued;
+  }
+
+  /**
+   * Compresses and encrypts the contents of a data or index file as set by the options of the model
+   *
+   * @param  {string} fileKey
+   * @param  {string} data
+   * @private
+   * @returns string
+   */
+  private encodeFile(fileKey: string, data: string): string {
+    return this.encryptFile(fileKey, this.options.compression ? compress(data, this.options.compression) : data);
+  }
+
+  /**
+   * Decrypts and decompresses the contents of a file, or a journal line, whatever compression it was written with
+   *
+   * @param  {string} fileKey
+   * @param  {string} data
+   * @private
+   * @returns string
+   * @throws EncryptionError | FileLoadError
+   */
+  private decodeFile(fileKey: string, data: string): string {
+    return decompress(this.decryptFile(fileKey, data), fileKey);
+  }
+
+  /**
+   * Encrypts the contents of a file, or a journal line, if the model has an encryption key
+   *
+   * @param  {string} fileKey
+   * @param  {string} data
+   * @private
+   * @returns string
+   */
+  private encryptFile(fileKey: string, data: string): string {
+    return this.cipherKey ? encrypt(data, this.cipherKey, fileKey) : data;
+  }
+
+  /**
+   * Resolves the key of the cipher from the encryptionKey option, with the salt stored in the metadata file or a
+   * new random salt, which is stored with the next snapshot
+   *
+   * @param  {string} salt
+   * @private
+   * @returns Promise
+   * @throws EncryptionError
+   */
+  private async resolveCipherKey(salt = createSalt()): Promise<void> {
+    this.cipherKey = await resolveEncryptionKey(this.options.encryptionKey, salt);
+    this.salt = salt;
+  }
+
+  /**
+   * Decrypts the contents of a file, or a journal line, written by encryptFile. With an encryption key, plain files
+   * are rejected as well, since anyone could have written them.
+   *
+   * @param  {string} fileKey
+   * @param  {string} data
+   * @private
+   * @returns string
+   * @throws EncryptionError
+   */
+  private decryptFile(fileKey: string, data: string): string {
+    if (!isEncrypted(data)) {
+      if (this.cipherKey) {
+        throw new EncryptionError(`the file ${fileKey} is not encrypted, use rekey to encrypt a collection`);
+      }
+
+      return data;
+    }
+    if (!this.cipherKey) {
+      throw new EncryptionError(`the file ${fileKey} is encrypted and no key is set`);
+    }
+
+    return decrypt(data, this.cipherKey, fileKey);
+  }
+
+  /**
+   * Reads the records of an import stream one row at a time, rows that can not be parsed are yielded with the error
+   *
+   * @param  {Readable} stream
+   * @param  {DataFormat} format
+   * @private
+   * @returns AsyncGenerator of the row numbers with the record or the parse error
+   */
+  private async *readImportRows(
+    stream: Readable,
+    format: DataFormat
+  ): AsyncGenerator<{ row: number; record?: any; error?: Error }> {
+    let row = 0;
+
+    if (format === 'csv') {
+      let header: Array<string> | undefined;
+
+      for await (const values of readCsvRows(stream)) {
+        if (!header) {
+          header = values;
+          continue;
+        }
+
+        let result: { row: number; record?: any; error?: Error };
+        try {
+          result = { row: ++row, record: recordFromCsv(header, values, this.schema) };
+        } catch (error) {
+          result = { row, error };
+        }
+        yield result;
+      }
+
+      return;
+    }
+
+    for await (const line of readLines(stream)) {
+      let result: { row: number; record?: any; error?: Error };
+      try {
+        result = { row: ++row, record: format === 'ejson' ? fromExtendedJson(line) : JSON.parse(line) };
+      } catch (error) {
+        result = { row, error };
+      }
+      yield result;
+    }
+  }
+
+  /**
+   * Returns the time a record expires at, the earliest of the dates of its TTL fields plus their expires seconds
+   *
+   * @param  {any} record
+   * @private
+   * @returns {number | undefined} undefined if the record does not expire
+   */
+  private expiryOf(record: any): number | undefined {
+    let expiry: number | undefined;
+
+    for (const { path, expires } of this.ttlFields) {
+      const value = getValue(record, path);
+      const time = value === undefined || value === null || value === '' ? NaN : new Date(value).getTime();
+
+      if (!Number.isNaN(time) && (expiry === undefined || time + expires * 1000 < expiry)) {
+        expiry = time + expires * 1000;
+      }
+    }
+
+    return expiry;
+  }
+
+  /**
+   * Moves the next expiry forward if a record that was added or changed expires earlier
+   *
+   * @param  {any} record
+   * @private
+   * @returns void
+   */
+  private scheduleExpiry(record: any): void {
+    const expiry = this.expiryOf(record);
+
+    if (expiry !== undefined && expiry < this.nextExpiry) {
+      this.nextExpiry = expiry;
+      this.startSweeper();
+    }
+  }
+
+  /**
+   * Removes the expired records from memory and the indexes, so that reads no longer see them. The records stay in
+   * the files until the next sweep or save. Only looks at the records once the next expiry has passed.
+   *
+   * @private
+   * @returns void
+   */
+  private expireRecords(): void {
+    const now = Date.now();
+
+    if (now < this.nextExpiry) {
+      return;
+    }
+
+    let nextExpiry = Infinity;
+    for (const [id, record] of Object.entries(this.dataCache)) {
+      const expiry = this.expiryOf(record);
+
+      if (expiry === undefined) {
+        continue;
+      }
+      if (expiry > now) {
+        nextExpiry = Math.min(nextExpiry, expiry);
+        continue;
+      }
+
+      this.deleteInIndex(record, id);
+      delete this.dataCache[id];
+      this.markDirty(id, record);
+      this.recordChange({ operationType: 'delete', id, previousDocument: record });
+      this.expiredCount++;
+    }
+
+    this.nextExpiry = nextExpiry;
+    if (nextExpiry !== Infinity || this.expiredCount) {
+      this.startSweeper();
+    }
+  }
+
+  /**
+   * Starts the timer that removes the expired records from the files. The timer does not keep the process alive.
+   *
+   * @private
+   * @returns void
+   */
+  private startSweeper(): void {
+    if (this.sweeper || this.options.readOnly) {
+      return;
+    }
+
+    this.sweeper = setInterval(() => {
+      // a sweep that fails, e.g. while another process holds the lock, is retried by the next one
+      this.sweep().catch(() => undefined);
+    }, this.options.ttlSweepInterval ?? CONSTANTS.ttlSweepInterval);
+    this.sweeper.unref();
+  }
+
+  // #endregion
+
+  // #region transaction internals
+  /**
+   * Returns the storage adapter of the model
+   *
+   * @returns StorageAdapter
+   */
+  getStorage(): StorageAdapter {
+    return this.storage;
+  }
+
+  /**
+   * Returns the schema of the model
+   *
+   * @returns SchemaType
+   */
+  getSchema(): SchemaType {
+    return this.schema;
+  }
+
+  /**
+   * Returns the transaction running on the model, if any
+   *
+   * @returns Transaction | undefined
+   */
+  getTransaction(): Transaction | undefined {
+    return this.transaction;
+  }
+
+  /**
+   * Waits until no transaction is running on the model
+   *
+   * @internal
+   * @returns Promise
+   */
+  async waitForTransaction(): Promise<void> {
+    while (this.transaction) {
+      await this.transactionFinished;
+    }
+  }
+
+  /**
+   * Marks the model as part of a transaction, saves are held back until it is finished
+   *
+   * @param  {Transaction} transaction
+   * @internal
+   * @returns void
+   */
+  attachTransaction(transaction: Transaction): void {
+    this.transaction = transaction;
+    this.transactionFinished = new Promise((resolve) => {
+      this.resolveTransactionFinished = resolve;
+    });
+  }
+
+  /**
+   * Removes the model from a finished transaction and lets the waiting writes continue
+   *
+   * @param  {Transaction} transaction
+   * @internal
+   * @returns void
+   */
+  detachTransaction(transaction: Transaction): void {
+    if (this.transaction === transaction) {
+      this.transaction = undefined;
+      this.resolveTransactionFinished();
+    }
+  }
+
+  /**
+   * Registers the database the model belongs to, so that it can find the models its schema refers to
+   *
+   * @param  {SkewerDatabase} database
+   * @internal
+   * @returns void
+   */
+  attachDatabase(database: SkewerDatabase): void {
+    this.database = database;
+  }
+
+  /**
+   * Captures the in memory state of the model so that it can be restored on rollback
+   *
+   * @internal
+   * @returns ModelState<T>
+   */
+  captureState(): ModelState<T> {
+    return {
+      // records are replaced and never changed in place, so a shallow copy is enough
+      dataCache: { ...this.dataCache },
+      indexCache: deepClone(this.indexCache),
+      isIndexDirty: this.isIndexDirty,
+      dirtyIds: new Set(this.dirtyIds),
+      savedRecords: new Map(this.savedRecords),
+      isCleared: this.isCleared,
+      changeSequence: this.changeSequence,
+    };
+  }
+
+  /**
+   * Restores a state captured with captureState
+   *
+   * @param  {ModelState<T>} state
+   * @internal
+   * @returns void
+   */
+  restoreState(state: ModelState<T>): void {
+    this.dataCache = { ...state.dataCache };
+    this.indexCache = deepClone(state.indexCache);
+    this.isIndexDirty = state.isIndexDirty;
+    this.dirtyIds = new Set(state.dirtyIds);
+    this.savedRecords = new Map(state.savedRecords);
+    this.isCleared = state.isCleared;
+    // the events of rolled back changes are never emitted
+    this.pendingChanges = this.pendingChanges.filter((x) => x.sequence <= state.changeSequence);
+    // rolled back records may have expired in the meantime
+    this.nextExpiry = 0;
+  }
+
+  /**
+   * Saves the changes of the transaction running on the model. Called by the transaction before it is finished, so
+   * that the changes can still be rolled back if the save fails.
+   *
+   * @internal
+   * @returns Promise
+   * @throws ReadOnlyError | ConflictError | LockError
+   */
+  async saveTransaction(): Promise<void> {
+    if (!this.options.readOnly && (this.dirtyIds.size || this.isCleared || this.isIndexDirty)) {
+      await this.enqueueWrite(() => (this.options.journal ? this.appendJournal() : this.writeFiles()));
+    } else {
+      await this.writeQueue;
+    }
+  }
+
+  /**
+   * Serializes the data and index caches as snapshot files, the journal is emptied by the same write.
+   * onWritten has to be called once the files are written.
+   *
+   * @internal
+   * @returns the files to write and the callback to call once they are written
+   */
+  prepareSnapshot(): { files: Array<[string, string]>; onWritten: () => void } {
+    const fileData = this.encodeFile(`${this.name}.json`, JSON.stringify(this.dataCache));
+    const snapshotId = randomUUID();
+    const metadata: ModelMetadata = { version: this.dataVersion, indexes: this.indexes, snapshotId, salt: this.salt };
+    const files: Array<[string, string]> = [
+      [`${this.name}.json`, fileData],
+      [`${this.name}_index.json`, this.encodeFile(`${this.name}_index.json`, JSON.stringify(this.indexCache))],
+      [`${this.name}_meta.json`, JSON.stringify(metadata)],
+    ];
+
+    if (this.journalSize > 0) {
+      files.push([`${this.name}_journal.ndjson`, '']);
+    }
+
+    const sequence = this.changeSequence;
+    this.isIndexDirty = false;
+    this.dirtyIds.clear();
+    this.savedRecords.clear();
+    this.isCleared = false;
+    this.expiredCount = 0;
+
+    return {
+      files,
+      onWritten: () => {
+        this.journalSize = 0;
+        this.snapshotSize = fileData.length;
+        this.snapshotId = snapshotId;
+        this.publishChanges(sequence);
+      },
+    };
+  }
+
+  /**
+   * Adds a write to the write queue of the model, so that two writes never run at the same time. The write holds
+   * the lock of the collection, so that no other process writes it at the same time either, and fails if another
+   * process changed the files since they were loaded or last written by this model.
+   *
+   * @param  {Function} write
+   * @internal
+   * @returns Promise resolving once the write is done
+   * @throws ReadOnlyError | ConflictError | LockError
+   */
+  enqueueWrite(write: () => Promise<void>): Promise<void> {
+    return this.enqueueLocked(async () => {
+      if (this.options.readOnly) {
+        throw new ReadOnlyError(this.name);
+      }
+      if (await this.hasExternalChanges()) {
+        this.discardUnsavedChanges();
+        throw new ConflictError(this.name);
+      }
+
+      await write();
+    });
+  }
+
+  /**
+   * Copies the data, index and metadata files of the collection from memory, in the format they are stored in
+   *
+   * @internal
+   * @returns CollectionSnapshot
+   */
+  captureSnapshot(): CollectionSnapshot {
+    const files = {
+      [`${this.name}.json`]: this.encodeFile(`${this.name}.json`, JSON.stringify(this.dataCache)),
+      [`${this.name}_index.json`]: this.encodeFile(`${this.name}_index.json`, JSON.stringify(this.indexCache)),
+      [`${this.name}_meta.json`]: JSON.stringify({ version: this.dataVersion, indexes: this.indexes, salt: this.salt }),
+    };
+
+    return {
+      name: this.name,
+      createdAt: new Date().toISOString(),
+      records: this.countAll(),
+      files,
+      checksums: Object.fromEntries(Object.entries(files).map(([key, data]) => [key, checksum(data)])),
+    };
+  }
+  // #endregion
+
+  /**
+   * Loads the collection and runs the pending migrations
+   *
+   * @param  {InitializeOptions} options
+   * @returns Promise
+   * @throws FileLoadError | EncryptionError | MigrationError | SchemaValidationError | LockError
+   */
+  async initialize(options: InitializeOptions = {}): Promise<SkewerModel<T>> {
+    if (this.options.readOnly) {
+      // waits for pending saves so that the files are not reloaded while they are being written
+      await this.writeQueue;
+      await this.resolveCipherKey((await this.loadMetadata())?.salt);
+      await this.loadFile();
+    } else {
+      await this.storage.init();
+
+      // holds the lock, so that no other process writes the files while they are recovered and loaded
+      await this.enqueueLocked(async () => {
+        // Finishes or discards a save that was interrupted by a crash
+        await this.storage.recover(this.fileKeys());
+
+        // a new collection gets a random salt, which is saved with the metadata below
+        await this.resolveCipherKey((await this.loadMetadata())?.salt);
+
+        // Initializes the empty json files if missing
+        if (!(await this.storage.exists(`${this.name}.json`))) {
+          await this.storage.write(`${this.name}.json`, this.encodeFile(`${this.name}.json`, '{}'));
+        }
+
+        // Initializes the empty json files if missing
+        if (!(await this.storage.exists(`${this.name}_index.json`))) {
+          await this.storage.write(`${this.name}_index.json`, this.encodeFile(`${this.name}_index.json`, '{}'));
+        }
+
+        const isChanged = await this.loadFile();
+
+        // folds a journal left over from journal mode into the snapshot, or saves the new metadata and indexes
+        if ((!this.options.journal && this.journalSize > 0) || isChanged) {
+          await this.writeFiles();
+        }
+      });
+    }
+
+    if (options.migrate !== false) {
+      await this.migrate();
+    }
+
+    return this;
+  }
+
+  /**
+   * Checks if the collection was loaded by initialize
+   *
+   * @returns boolean
+   */
+  isInitialized(): boolean {
+    return this.isLoaded;
+  }
+
+  /**
+   * Returns the schema version of the loaded records
+   *
+   * @returns number
+   */
+  getVersion(): number {
+    return this.dataVersion;
+  }
+
+  /**
+   * Runs the migrations from the version of the records to the version of the model over all records, updates the
+   * indexes of the changed records and saves them together with the new version. Defaults of fields added by the
+   * new schema are filled in. Runs on initialize unless it is called with { migrate: false }.
+   *
+   * @param  {MigrateOptions} options use { dryRun: true } to only report what would change
+   * @returns {Promise<MigrationReport>}
+   * @throws MigrationError | SchemaValidationError if a migrated record fails the schema | TransactionError
+   */
+  async migrate(options: MigrateOptions = {}): Promise<MigrationReport> {
+    if (this.mustWaitForTransaction()) await this.waitForTransaction();
+
+    if (this.transaction) {
+      throw new TransactionError('a collection can not be migrated inside of a transaction');
+    }
+
+    const migrations = this.pendingMigrations();
+    const report: MigrationReport = {
+      fromVersion: this.dataVersion,
+      toVersion: this.targetVersion(),
+      migrations: migrations.map(({ from, to }) => ({ from, to })),
+      changes: [],
+      errors: [],
+      dryRun: !!options.dryRun,
+    };
+
+    if (!migrations.length) {
+      return report;
+    }
+    if (this.options.readOnly && !options.dryRun) {
+      throw new ReadOnlyError(this.name);
+    }
+
+    for (const record of Object.values(this.dataCache)) {
+      let migratedRecord = deepClone(record);
+      migrations.forEach((migration) => {
+        migratedRecord = migration.up(migratedRecord) ?? migratedRecord;
+      });
+
+      migratedRecord.id = record.id;
+      applyDefaults(migratedRecord, this.schema);
+      castRecord(migratedRecord, this.schema);
+
+      validateRecord(migratedRecord, this.schema).forEach(({ path, criteria }) =>
+        report.errors.push({ path: `${record.id}.${path}`, criteria })
+      );
+
+      if (!isEqual(record, migratedRecord)) {
+        report.changes.push({ id: record.id, before: record, after: migratedRecord });
+      }
+    }
+
+    if (options.dryRun) {
+      return report;
+    }
+    if (report.errors.length) {
+      throw new SchemaValidationError(report.errors);
+    }
+
+    report.changes.forEach(({ id, before, after }) => {
+      this.updateInIndex(before, after, id);
+      this.dataCache[id] = after;
+    });
+    this.dataVersion = report.toVersion;
+
+    await this.enqueueWrite(() => this.writeFiles());
+
+    return report;
+  }
+
+  /**
+   * Folds the journal into a new snapshot of the data and index files and empties the journal.
+   * Only needed in journal mode, compaction also runs automatically once the journal reaches the configured size.
+   *
+   * @returns Promise
+   * @throws TransactionError if called inside of a transaction on the model
+   */
+  async compact(): Promise<void> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+
+    if (this.transaction) {
+      throw new TransactionError('a collection can not be compacted inside of a transaction');
+    }
+    this.expireRecords();
+
+    await this.enqueueWrite(() => this.writeFiles());
+  }
+
+  /**
+   * Saves the pending changes, if any, and waits until all queued writes are on disk.
+   * Does nothing while a transaction is running on the model, the changes are saved when it commits.
+   *
+   * @returns Promise
+   */
+  async flush(): Promise<void> {
+    if (this.transaction) {
+      return;
+    }
+
+    // read-only models only change in memory, e.g. when records expire
+    if (!this.options.readOnly && (this.dirtyIds.size || this.isCleared || this.isIndexDirty)) {
+      await this.saveFile();
+    } else {
+      await this.writeQueue;
+    }
+  }
+
+  /**
+   * Removes the expired records from the files. Expired records are hidden from reads right away, the sweeper runs
+   * this every ttlSweepInterval.
+   *
+   * @returns {Promise<number>} the number of removed records
+   * @throws ReadOnlyError | ConflictError | LockError
+   */
+  async sweep(): Promise<number> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
+
+    // the records that expired since the last save, which removes them from the files
+    const count = this.expiredCount;
+    if (count) {
+      await this.saveFile();
+    }
+
+    return count;
+  }
+
+  /**
+   * Waits for a running transaction, saves the pending changes and stops the TTL sweeper. The sweeper starts again
+   * once the model is initialized again or writes a record that expires.
+   *
+   * @returns Promise
+   */
+  async close(): Promise<void> {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+
+    await this.waitForTransaction();
+    await this.flush();
+  }
+
+  /**
+   * Loads the collection again if another process changed its files since they were loaded or last written by
+   * this model. Changes that are not saved, e.g. the ones of a write that failed with a ConflictError, are discarded.
+   *
+   * @returns {Promise<boolean>} true if the collection was reloaded
+   * @throws FileLoadError | TransactionError | LockError
+   */
+  async reload(): Promise<boolean> {
+    if (this.mustWaitForTransaction()) await this.waitForTransaction();
+
+    if (this.transaction) {
+      throw new TransactionError('the collection can not be reloaded inside of a transaction');
+    }
+
+    const reloadChanged = async (): Promise<boolean> => {
+      if (!(await this.hasExternalChanges())) {
+        return false;
+      }
+
+      await this.loadFile();
+      return true;
+    };
+
+    if (this.options.readOnly) {
+      await this.writeQueue;
+      return reloadChanged();
+    }
+
+    return this.enqueueLocked(reloadChanged);
+  }
+
+  /**
+   * Rewrites the files of the collection encrypted with a new key, e.g. to rotate the key. Without a key, the files
+   * are stored unencrypted. Plain collections are encrypted by opening them without a key and calling rekey.
+   *
+   * @param  {EncryptionKey} encryptionKey the new key, a passphrase or a function that provides one of them
+   * @returns Promise
+   * @throws EncryptionError | TransactionError
+   */
+  async rekey(encryptionKey?: EncryptionKey): Promise<void> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+
+    if (this.transaction) {
+      throw new TransactionError('the key can not be changed inside of a transaction');
+    }
+
+    // a new key gets a new salt
+    const salt = createSalt();
+    const cipherKey = await resolveEncryptionKey(encryptionKey, salt);
+
+    await this.enqueueWrite(async () => {
+      const previousKey = this.cipherKey,
+        previousSalt = this.salt;
+      this.cipherKey = cipherKey;
+      this.salt = salt;
+
+      try {
+        await this.writeFiles();
+      } catch (error) {
+        this.cipherKey = previousKey;
+        this.salt = previousSalt;
+        throw error;
+      }
+    });
+
+    this.options = { ...this.options, encryptionKey };
+  }
+
+  /**
+   * Returns a point in time copy of the collection with the checksums of its files, e.g. as a checkpoint to restore
+   * after running a risky script. Waits until a transaction of another caller is finished, so that its changes are
+   * either part of the snapshot or not at all.
+   *
+   * @returns Promise<CollectionSnapshot>
+   * @throws TransactionError if called inside of a transaction on the model
+   */
+  async snapshot(): Promise<CollectionSnapshot> {
+    if (this.mustWaitForTransaction()) await this.waitForTransaction();
+
+    if (this.transaction) {
+      throw new TransactionError('a snapshot can not be taken inside of a transaction');
+    }
+
+    return this.captureSnapshot();
+  }
+
+  /**
+   * Replaces the collection with a snapshot taken with snapshot or read from a backup. The checksums of the files
+   * are verified before anything is written, and the records and indexes are reloaded from the restored files.
+   *
+   * @param  {CollectionSnapshot} snapshot
+   * @returns Promise
+   * @throws SnapshotError | EncryptionError | TransactionError
+   */
+  async restore(snapshot: CollectionSnapshot): Promise<void> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+
+    if (this.transaction) {
+      throw new TransactionError('a collection can not be restored inside of a transaction');
+    }
+
+    verifySnapshot(snapshot);
+    if (snapshot.name !== this.name) {
+      throw new SnapshotError(`the snapshot of ${snapshot.name} can not be restored to ${this.name}`);
+    }
+
+    const metaKey = `${this.name}_meta.json`;
+    const files: Array<[string, string]> = [
+      [`${this.name}.json`, snapshot.files[`${this.name}.json`]],
+      [
+        `${this.name}_index.json`,
+        snapshot.files[`${this.name}_index.json`] ?? this.encodeFile(`${this.name}_index.json`, '{}'),
+      ],
+    ];
+
+    // fails before writing if the snapshot was encrypted with another key
+    files.forEach(([key, data]) => this.decodeFile(key, data));
+
+    await this.enqueueWrite(async () => {
+      // a new snapshot id tells other processes that the files were replaced
+      // the files were checked to be encrypted with the key and salt of the model
+      const metadata = { ...JSON.parse(snapshot.files[metaKey] ?? '{}'), salt: this.salt, snapshotId: randomUUID() };
+      files.push([metaKey, JSON.stringify(metadata)]);
+
+      if (this.journalSize > 0) {
+        files.push([`${this.name}_journal.ndjson`, '']);
+      }
+
+      await this.storage.writeMany(files, `${this.name}.commit`);
+      await this.loadFile();
+    });
+  }
+
+  /**
+   * Rewrites the data and index files of the collection with another compression, or uncompressed without a
+   * format. Collections are also converted on initialize when the compression option changed.
+   *
+   * @param  {CompressionFormat} compression
+   * @returns Promise
+   * @throws TransactionError
+   */
+  async setCompression(compression?: CompressionFormat): Promise<void> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+
+    if (this.transaction) {
+      throw new TransactionError('the compression can not be changed inside of a transaction');
+    }
+
+    await this.enqueueWrite(async () => {
+      const previousOptions = this.options;
+      this.options = { ...this.options, compression };
+
+      try {
+        await this.writeFiles();
+      } catch (error) {
+        this.options = previousOptions;
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Removes the files of the model from the storage and empties the model in memory.
+   * The model can be used again after calling initialize.
+   *
+   * @returns Promise
+   */
+  async drop(): Promise<void> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+
+    // the files are removed whatever another process wrote to them
+    await this.enqueueLocked(async () => {
+      for (const key of this.fileKeys()) {
+        await this.storage.remove(key);
+      }
+    });
+
+    this.dataCache = {};
+    this.indexCache = {};
+    this.isIndexDirty = false;
+    this.dirtyIds.clear();
+    this.savedRecords.clear();
+    this.isCleared = false;
+    this.journalSize = 0;
+    this.snapshotSize = 0;
+    this.snapshotId = undefined;
+    this.pendingChanges = [];
+    this.emitChanges([{ operationType: 'drop' }]);
   }
 
   /**
-   * Saves the updated state of a collection to disk
+   * Returns the number of records and the size of the files of the model
    *
-   * @private
+   * @returns Promise<CollectionStats>
    */
-  private async saveFile(): Promise<void> {
-    if (!this.isTxnOpen) {
-      await FileStorage.write(`${this.path}.json`, JSON.stringify(this.dataCache));
+  async stats(): Promise<CollectionStats> {
+    await this.writeQueue;
 
-      if (this.isIndexDirty) {
-        await FileStorage.write(`${this.path}_index.json`, JSON.stringify(this.indexCache));
-      }
+    let size = 0;
+    for (const key of this.fileKeys()) {
+      size += await this.storage.size(key);
     }
+
+    return { name: this.name, records: this.countAll(), size };
   }
 
   /**
-   * Validates the record against schema and throws error if validation fails
+   * Returns the definitions of the indexes, including the ones defined by the schema
    *
-   * @param {T} record document to be validated
-   * @private
-   * @returns {void}
-   * @throws SchemaValidationError
+   * @returns Array<IndexDefinition>
    */
-  private validateSchema(record: T, isUpdate = false): void {
-    for (const key in this.schema) {
-      // validate required clause
-      if (this.schema[key].required && !record[key]?.toString()) {
-        throw new SchemaValidationError(record[key], 'required field');
-      }
-      // validate type
-      if (record[key] && record[key].toString() && !(record[key].constructor === this.schema[key].type)) {
-        throw new SchemaValidationError(`${record[key]}`, `should be of type ${this.schema[key].type.name}`);
-      }
-      // validate enum
-      if (
-        record[key] &&
-        this.schema[key].enum &&
-        this.schema[key].type === String &&
-        !this.schema[key]?.enum?.includes(record[key])
-      ) {
-        throw new SchemaValidationError(`${record[key]}`, `enum ${this.schema[key].enum}`);
-      }
-      // validate unique
-      if (booleanIsTrue(this.schema[key].unique) && this.find({ [key]: record[key] }).length > (isUpdate ? 1 : 0)) {
-        throw new SchemaValidationError(`${record[key]}`, `unique`);
-      }
-    }
+  getIndexes(): Array<IndexDefinition> {
+    return deepClone(this.indexes);
   }
 
   /**
-   * Updates the index cache for one record
+   * Creates an index on one or more fields at runtime and builds it from the existing records. Compound indexes
+   * are used by find when the filter has an equality or $in condition for each of their fields.
    *
-   * @param  {any} record the insert / update record data
-   * @param  {string} id id of the record being inserted / updated
-   * @private
-   * @returns void
+   * @param  {string | Array<string>} fields dotted paths of the fields
+   * @param  {IndexOptions} options
+   * @returns {Promise<string>} the name of the index
+   * @throws IndexError if the index exists with other options or the records violate a unique index
    */
-  private addToIndex(record: any, id: string): void {
-    this.isIndexDirty = true;
-
-    Object.keys(record).forEach((recordKey) => {
-      const recordValue = record[recordKey];
+  async createIndex(fields: string | Array<string>, options: IndexOptions = {}): Promise<string> {
+    await this.beforeIndexChange();
+
+    const fieldList = Array.isArray(fields) ? fields : [fields];
+    const index: IndexDefinition = {
+      name: options.name || (options.text ? `${indexName(fieldList)}_text` : indexName(fieldList)),
+      fields: fieldList,
+      unique: !!options.unique,
+      sparse: !!options.sparse || !!options.text,
+      sorted: !!options.sorted,
+      text: !!options.text,
+    };
+
+    if (index.sorted && index.fields.length > 1) {
+      throw new IndexError(index.name, 'can only be sorted on a single field');
+    }
+    if (index.text && (index.fields.length > 1 || index.unique || index.sorted)) {
+      throw new IndexError(index.name, 'can only be a text index on a single field without other options');
+    }
 
-      if (CONSTANTS.ignoredDBRecordKeys.includes(recordKey)) {
-      } else if (this.schema[recordKey].unique || this.schema[recordKey].index) {
-        if (!this.indexCache[recordKey] || !this.indexCache[recordKey][recordValue]) {
-          this.indexCache[recordKey] = { [recordValue]: [] };
-        }
+    const existingIndex = this.indexes.find((x) => x.name === index.name);
 
-        this.indexCache[recordKey][recordValue].push(id);
+    if (existingIndex) {
+      if (isSameIndex(existingIndex, index) && !!existingIndex.unique === index.unique) {
+        return index.name;
       }
-    });
+
+      throw new IndexError(index.name, 'already exists with other options');
+    }
+
+    this.indexes.push(index);
+    this.indexCache[index.name] = buildIndex(index, Object.values(this.dataCache));
+
+    if (index.unique && Object.values(this.dataCache).some((record) => this.hasDuplicate(record, index, true))) {
+      this.indexes = this.indexes.filter((x) => x !== index);
+      delete this.indexCache[index.name];
+
+      throw new IndexError(index.name, 'can not be created, the records have duplicate values');
+    }
+
+    await this.enqueueWrite(() => this.writeFiles());
+
+    return index.name;
   }
 
   /**
-   * Removes the old indexed value and adds the new one
+   * Drops an index created with createIndex
    *
-   * @param  {any} oldRecord
-   * @param  {any} newRecord
-   * @param  {string} id
-   * @private
-   * @returns void
+   * @param  {string} name
+   * @returns Promise
+   * @throws IndexError if the index does not exist or is defined by the schema
    */
-  private updateInIndex(oldRecord: any, newRecord: any, id: string): void {
-    this.isIndexDirty = true;
+  async dropIndex(name: string): Promise<void> {
+    await this.beforeIndexChange();
 
-    Object.keys(newRecord).forEach((recordKey) => {
-      const recordValue = newRecord[recordKey];
+    const index = this.indexes.find((x) => x.name === name);
 
-      if (CONSTANTS.ignoredDBRecordKeys.includes(recordKey)) {
-      } else if (this.schema[recordKey].unique || this.schema[recordKey].index) {
-        if (!this.indexCache[recordKey]) {
-          this.indexCache[recordKey] = { [recordValue]: [] };
-        }
+    if (!index) {
+      throw new IndexError(name, 'does not exist');
+    }
+    if (index.schema) {
+      throw new IndexError(name, 'is defined by the schema and can not be dropped');
+    }
 
-        // locates the index for a field with the old value and then removes the record id from the id array
-        this.indexCache[recordKey][oldRecord[recordKey]] = this.indexCache[recordKey][oldRecord[recordKey]].filter(
-          (x) => x !== id
-        );
+    this.indexes = this.indexes.filter((x) => x !== index);
+    delete this.indexCache[name];
 
-        this.indexCache[recordKey][recordValue].push(id);
-      }
-    });
+    await this.enqueueWrite(() => this.writeFiles());
   }
 
   /**
-   * Removes the deleted value from index
+   * Rebuilds all indexes from the records and saves them
    *
-   * @param  {any} oldRecord
-   * @param  {string} id
-   * @private
-   * @returns void
+   * @returns Promise
    */
-  private deleteInIndex(oldRecord: any, deleteId: string): void {
-    this.isIndexDirty = true;
+  async rebuildIndexes(): Promise<void> {
+    await this.beforeIndexChange();
 
-    Object.keys(oldRecord).forEach((recordKey) => {
-      const recordValue = oldRecord[recordKey];
-
-      if (CONSTANTS.ignoredDBRecordKeys.includes(recordKey)) {
-      } else if (this.schema[recordKey].unique || this.schema[recordKey].index) {
-        if (!this.indexCache[recordKey]) {
-          this.indexCache[recordKey] = { [recordValue]: [] };
-        }
+    const records = Object.values(this.dataCache);
+    this.indexCache = Object.fromEntries(this.indexes.map((index) => [index.name, buildIndex(index, records)]));
 
-        // locates the index for a field with the old value and then removes the record id from the id array
-        this.indexCache[recordKey][oldRecord[recordKey]] = this.indexCache[recordKey][oldRecord[recordKey]].filter(
-          (x) => x !== deleteId
-        );
-      }
-    });
+    await this.enqueueWrite(() => this.writeFiles());
   }
-  // #endregion
 
   /**
-   * @returns Promise
+   * Compares the indexes with the records and reports the keys whose ids do not match.
+   * The indexes are loaded from the index file and kept up to date in memory, rebuildIndexes fixes the mismatches.
+   *
+   * @returns IndexVerifyReport
    */
-  async initialize(): Promise<SkewerModel<T>> {
-    if (!(await FileStorage.exists(this.basePath))) {
-      await FileStorage.mkdir(this.basePath);
-    }
-
-    // Initializes the empty json files if missing
-    if (!(await FileStorage.exists(`${this.path}.json`))) {
-      await FileStorage.write(`${this.path}.json`, '{}');
+  verifyIndexes(): IndexVerifyReport {
+    const records = Object.values(this.dataCache);
+    const mismatches: Array<IndexMismatch> = [];
+
+    for (const index of this.indexes) {
+      const expected = entriesByKey(index, buildIndex(index, records));
+      const actual = entriesByKey(index, this.indexCache[index.name]);
+
+      for (const key of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+        const expectedIds = hashEntryIds(expected, key),
+          actualIds = hashEntryIds(actual, key);
+        const missingIds = expectedIds.filter((id) => !actualIds.includes(id)),
+          extraIds = actualIds.filter((id) => !expectedIds.includes(id));
+
+        if (missingIds.length || extraIds.length) {
+          mismatches.push({ index: index.name, key, missingIds, extraIds });
+        }
+      }
     }
 
-    // Initializes the empty json files if missing
-    if (!(await FileStorage.exists(`${this.path}_index.json`))) {
-      await FileStorage.write(`${this.path}_index.json`, '{}');
-    }
+    return { isValid: mismatches.length === 0, mismatches };
+  }
 
-    await this.loadFile();
+  /**
+   * Runs the callback in a transaction. The changes are saved when the callback resolves and rolled back in memory
+   * if it throws. Writes made outside of the callback wait until the transaction is finished, and calling
+   * withTransaction again inside the callback creates a savepoint that rolls back on its own.
+   *
+   * @param  {Function} callback receives the transaction, use transaction.savepoint for nested savepoints
+   * @returns {Promise<R>} the result of the callback
+   * @throws TransactionError
+   */
+  withTransaction<R>(callback: (transaction: Transaction) => Promise<R>): Promise<R> {
+    return Transaction.run([this], callback);
+  }
 
-    return this;
+  /**
+   * Runs the callback in a transaction over several models that commits atomically. The models must use the same
+   * storage. See withTransaction.
+   *
+   * @param  {Array<SkewerModel<any>>} models
+   * @param  {Function} callback
+   * @returns {Promise<R>} the result of the callback
+   * @throws TransactionError
+   */
+  static withTransaction<R>(
+    models: Array<SkewerModel<any>>,
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    return Transaction.run(models, callback);
   }
 
   /**
    * Start a transaction block to increase efficiency of multiple write operations
+   *
+   * @throws TransactionError if a transaction is already open
    */
   openTransaction() {
-    this.isTxnOpen = true;
+    Transaction.open([this]);
   }
 
   /**
    * Close transaction block and save all changes to disk
+   *
+   * @throws TransactionError if the open transaction belongs to a withTransaction callback
    */
   async commitTransaction(): Promise<void> {
-    this.isTxnOpen = false;
-    this.saveFile();
+    if (!this.transaction) {
+      return this.flush();
+    }
+    if (this.transaction.isScoped) {
+      throw new TransactionError('the transaction belongs to a withTransaction callback');
+    }
+
+    await this.transaction.commit();
   }
 
   /**
    * Abort transaction block and discard all changes
+   *
+   * @throws TransactionError if the open transaction belongs to a withTransaction callback
    */
   async abortTransaction(): Promise<void> {
-    this.isTxnOpen = false;
-    this.loadFile();
+    if (!this.transaction) {
+      return;
+    }
+    if (this.transaction.isScoped) {
+      throw new TransactionError('the transaction belongs to a withTransaction callback');
+    }
+
+    this.transaction.rollback();
+  }
+
+  /**
+   * Registers a hook that runs before records are validated, saved (inserted), updated or deleted. Hooks run one
+   * after another in the order they were registered, they may be async, change the record or throw to abort the
+   * write. Bulk methods run the hooks for every record.
+   *
+   * @param  {HookEvent} event 'validate', 'save', 'update' or 'delete'
+   * @param  {HookFunction<T>} hook receives the record, and the record before the change for updates
+   * @returns SkewerModel
+   */
+  pre(event: HookEvent, hook: HookFunction<T>): this {
+    this.hooks.pre[event].push(hook);
+    return this;
+  }
+
+  /**
+   * Registers a hook that runs after records are validated, saved (inserted), updated or deleted. Save, update and
+   * delete hooks run once the change is saved, errors they throw are passed on but do not undo the change.
+   *
+   * @param  {HookEvent} event 'validate', 'save', 'update' or 'delete'
+   * @param  {HookFunction<T>} hook receives the record, and the record before the change for updates
+   * @returns SkewerModel
+   */
+  post(event: HookEvent, hook: HookFunction<T>): this {
+    this.hooks.post[event].push(hook);
+    return this;
+  }
+
+  /**
+   * Opens a change stream that emits the insert, update, delete and drop events of the model. Events are emitted
+   * once the change is saved, changes made in a transaction once it commits, and never for rolled back changes.
+   * Listen to the "change" event or read the events with for await, and close the stream when done.
+   *
+   * @param  {FilterQuery} filter only changes of records matching the filter are emitted, deletes match the deleted
+   * record
+   * @returns {ChangeStream<T>}
+   * @throws InvalidQueryError
+   */
+  watch(filter: FilterQuery = {}): ChangeStream<T> {
+    validateFilter(filter);
+
+    const stream: ChangeStream<T> = new ChangeStream<T>(filter, () => this.changeStreams.delete(stream));
+    this.changeStreams.add(stream);
+
+    return stream;
   }
 
   /**
@@ -242,6 +2215,8 @@ export class SkewerModel<T extends ISkewerModel> {
    * @returns {Array<T>} Array of records
    */
   getAllRecords(): Array<T> {
+    this.expireRecords();
+
     return Array.from(Object.values(this.dataCache));
   }
 
@@ -252,52 +2227,146 @@ export class SkewerModel<T extends ISkewerModel> {
    * @returns the record if found else returns undefined
    */
   findById(recordId: string): T | undefined {
+    this.expireRecords();
+
     return this.dataCache[recordId];
   }
 
   /**
-   * Locates all records that match the search parameters (case-sensitive)
+   * Locates all records that match the filter (case-sensitive). Supports MongoDB style query operators
+   * ($eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $regex, $size, $all, $not) and the logical
+   * operators $and, $or and $nor. Equality and $in conditions on indexed fields are served by the index.
+   * Returns a chainable query that can be sorted, paginated and projected, and is executed with exec() or await.
+   *
+   * @param {FilterQuery} filter search parameters
+   * @returns {Query<T>} query resolving to an array of records found
+   * @throws InvalidQueryError
+   */
+  find(filter: FilterQuery = {}): Query<T> {
+    return new Query<T>(
+      (options) => {
+        this.expireRecords();
+        return findRecords(filter, this.indexes, this.dataCache, this.indexCache, options);
+      },
+      false,
+      (record, paths) => this.populateRecord(record, paths)
+    );
+  }
+
+  /**
+   * Locates the first record that matches the filter
+   *
+   * @param {FilterQuery} filter search parameters
+   * @returns {Query<T, T | undefined>} query resolving to the record if found else undefined
+   * @throws InvalidQueryError
+   */
+  findOne(filter: FilterQuery = {}): Query<T, T | undefined> {
+    return new Query<T, T | undefined>(
+      (options) => {
+        this.expireRecords();
+        return findRecords(filter, this.indexes, this.dataCache, this.indexCache, options);
+      },
+      true,
+      (record, paths) => this.populateRecord(record, paths)
+    );
+  }
+
+  /**
+   * Counts the number of records that match the filter
    *
-   * @param {object} searchParams search parameters
-   * @returns an array of records found
+   * @param {FilterQuery} filter search parameters
+   * @returns count of records
+   * @throws InvalidQueryError
    */
-  find(searchParams: { [key: string]: string | number | boolean }): Array<T> {
-    const foundRecords: Array<any> = [],
-      tempDataCache: DataCacheType<any> = {},
-      searchPArr = Object.entries(searchParams);
-    let counter = 0;
+  countDocuments(filter: FilterQuery = {}): number {
+    this.expireRecords();
 
-    for (const [key, value] of searchPArr) {
-      ++counter;
+    return findRecords(filter, this.indexes, this.dataCache, this.indexCache).length;
+  }
 
-      if (this.schema[key].unique || this.schema[key].index) {
-        const dbIds = this.indexCache[key]?.[value as any] || [];
+  /**
+   * Runs an aggregation pipeline over the records with the MongoDB stages $match, $project, $group, $sort, $skip,
+   * $limit, $unwind and $lookup. A leading $match uses the indexes like find.
+   *
+   * @param {Array<PipelineStage>} pipeline
+   * @returns {Promise<Array<R>>} the plain objects the last stage outputs
+   * @throws InvalidQueryError if a stage, accumulator or query operator is not supported
+   */
+  async aggregate<R extends object = { [key: string]: any }>(pipeline: Array<PipelineStage>): Promise<Array<R>> {
+    this.expireRecords();
 
-        dbIds.forEach((dbId) => {
-          const record = (counter === 1 ? this.dataCache : tempDataCache)[dbId];
-          if (record) tempDataCache[dbId] = { ...record, count: (record.count || 0) + 1 };
-        });
-      } else {
-        Object.values(counter === 1 ? this.dataCache : tempDataCache).forEach((dcValue) => {
-          if (dcValue[key] === value) {
-            tempDataCache[dcValue.id] = { ...dcValue, count: (dcValue.count || 0) + 1 };
-          }
-        });
-      }
+    const [firstStage, ...otherStages] = pipeline;
 
-      if (tempDataCache.size === 0) {
-        break;
-      }
+    if (firstStage && '$match' in firstStage) {
+      const records = findRecords(firstStage.$match, this.indexes, this.dataCache, this.indexCache);
+      return aggregateRecords(records, otherStages);
     }
 
-    Object.values(tempDataCache).forEach((value) => {
-      if (value.count === searchPArr.length) {
-        delete value.count;
-        foundRecords.push(value);
+    return aggregateRecords(Object.values(this.dataCache), pipeline);
+  }
+
+  /**
+   * Searches the text indexed fields for the terms of the query and returns the matching records ranked by
+   * relevance (BM25). The terms are lowercased and stemmed like the indexed text and stop words are ignored,
+   * records match if they contain any of the terms.
+   *
+   * @param {string} query search terms
+   * @param {SearchOptions} options text indexed fields to search in and the maximum number of results
+   * @returns {Array<SearchResult<T>>} the matching records with their scores, best match first
+   * @throws IndexError if one of the fields has no text index
+   */
+  search(query: string, options: SearchOptions = {}): Array<SearchResult<T>> {
+    this.expireRecords();
+
+    const textIndexes = this.indexes.filter((index) => index.text);
+    const indexes = (options.fields || textIndexes.map((index) => index.fields[0])).map((field) => {
+      const index = textIndexes.find((x) => x.fields[0] === field);
+
+      if (!index) {
+        throw new IndexError(`${field}_text`, 'does not exist');
       }
+
+      return index;
+    });
+
+    const terms = [...new Set(tokenize(query))];
+    const scores = new Map<string, number>();
+    indexes.forEach((index) =>
+      scoreTextIndex((this.indexCache[index.name] || { terms: {}, lengths: {} }) as TextIndexEntries, terms, scores)
+    );
+
+    const results = [...scores]
+      .filter(([id]) => this.dataCache[id])
+      .map(([id, score]) => ({ record: this.dataCache[id], score }))
+      .sort((a, b) => b.score - a.score);
+
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  /**
+   * Finds the distinct values of a field, or of a dotted path like "address.city", across the records that match the
+   * filter, array values are flattened
+   *
+   * @param {string} field field to collect the values of
+   * @param {FilterQuery} filter search parameters
+   * @returns array of distinct values
+   * @throws InvalidQueryError
+   */
+  distinct(field: string, filter: FilterQuery = {}): Array<any> {
+    this.expireRecords();
+
+    const values: Array<any> = [];
+    findRecords(filter, this.indexes, this.dataCache, this.indexCache).forEach((record) => {
+      const fieldValue = getValue(record, field);
+
+      (Array.isArray(fieldValue) ? fieldValue : [fieldValue]).forEach((value: any) => {
+        if (value !== undefined && !values.some((x) => isEqual(x, value))) {
+          values.push(value);
+        }
+      });
     });
 
-    return foundRecords;
+    return values;
   }
 
   /**
@@ -306,6 +2375,8 @@ export class SkewerModel<T extends ISkewerModel> {
    * @returns count of records
    */
   countAll(): number {
+    this.expireRecords();
+
     return Object.keys(this.dataCache).length;
   }
 
@@ -318,26 +2389,41 @@ export class SkewerModel<T extends ISkewerModel> {
    * @throws SchemaValidationError
    */
   async insertOne(record: any, id?: string): Promise<T> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
+
     if (id && this.dataCache[id]) {
       throw new DuplicateIdError();
     }
 
-    this.validateSchema(record);
+    applyDefaults(record, this.schema);
+    castRecord(record, this.schema);
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { id: _, ...strippedRecord } = record;
+    if (this.hasWriteHooks('save')) {
+      await this.beforeWrite('save', record);
 
-    const newId = id || randomUUID();
+      // a concurrent write may have used the id while the hooks ran
+      if (id && this.dataCache[id]) {
+        throw new DuplicateIdError();
+      }
+    }
+
+    this.validateSchema(record);
 
-    this.addToIndex(strippedRecord, newId);
+    const newId = id || randomUUID();
 
     record.id = newId;
     record.createdAt = new Date().toISOString();
     record.updatedAt = new Date().toISOString();
 
+    this.addToIndex(record, newId);
+
     this.dataCache[newId] = record;
+    this.markDirty(newId, undefined);
+    this.recordChange({ operationType: 'insert', id: newId, document: record });
 
     await this.saveFile();
+    await this.runHooks('post', 'save', record);
 
     return record;
   }
@@ -350,22 +2436,38 @@ export class SkewerModel<T extends ISkewerModel> {
    * @throws SchemaValidationError
    */
   async insertMany(newRecords: Array<any>): Promise<Array<T>> {
-    newRecords.forEach((x) => {
-      this.validateSchema(x);
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
 
-      const newId = x.id || randomUUID();
+    for (const x of newRecords) {
+      applyDefaults(x, this.schema);
+      castRecord(x, this.schema);
 
-      this.addToIndex(x, newId);
+      if (this.hasWriteHooks('save')) await this.beforeWrite('save', x);
+    }
+
+    this.validateBatch(newRecords);
+
+    newRecords.forEach((x) => {
+      const newId = x.id || randomUUID();
 
       x.id = newId;
       x.createdAt = new Date().toISOString();
       x.updatedAt = new Date().toISOString();
 
+      this.addToIndex(x, newId);
+
       this.dataCache[newId] = x;
+      this.markDirty(newId, undefined);
+      this.recordChange({ operationType: 'insert', id: newId, document: x });
     });
 
     await this.saveFile();
 
+    for (const x of newRecords) {
+      await this.runHooks('post', 'save', x);
+    }
+
     return newRecords;
   }
 
@@ -373,31 +2475,70 @@ export class SkewerModel<T extends ISkewerModel> {
    * Finds a record by id and updates it
    *
    * @param  {string} recordId search id
-   * @param  {Partial<T>} newRecord partial record with new values
+   * @param  {Partial<T> | UpdateQuery} newRecord partial record with new values or update operators like $set
    * @returns {Promise<T>} new updated record
-   * @throws RecordNotFoundError | SchemaValidationError
+   * @throws RecordNotFoundError | SchemaValidationError | InvalidQueryError
    */
-  async updateById(recordId: string, newRecord: Partial<T>): Promise<T> {
+  async updateById(recordId: string, newRecord: Partial<T> | UpdateQuery): Promise<T> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
+
     const oldRecord = this.dataCache[recordId];
 
     if (!oldRecord) {
       throw new RecordNotFoundError();
     }
 
-    // in case id or created at fields are passed delete them
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { id, createdAt, updatedAt, ...strippedNewRecord } = newRecord;
+    const [change] = await this.updateRecords([oldRecord], newRecord, true);
+
+    await this.saveFile();
+    await this.runHooks('post', 'update', change.newRecord, change.oldRecord);
+
+    return change.newRecord;
+  }
+
+  /**
+   * Updates the first record that matches the filter
+   *
+   * @param  {FilterQuery} filter search parameters
+   * @param  {Partial<T> | UpdateQuery} update partial record with new values or update operators like $set
+   * @param  {UpdateOptions} options upsert inserts a new record built from the filter and the update if none matches
+   * @returns {Promise<UpdateResult>} matched and modified counts, and the id of the upserted record
+   * @throws SchemaValidationError | InvalidQueryError
+   */
+  async updateOne(
+    filter: FilterQuery,
+    update: Partial<T> | UpdateQuery,
+    options: UpdateOptions = {}
+  ): Promise<UpdateResult> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
 
-    this.updateInIndex(oldRecord, strippedNewRecord, oldRecord.id);
+    const [matchedRecord] = findRecords(filter, this.indexes, this.dataCache, this.indexCache);
 
-    const formedNewRecord = { ...oldRecord, ...strippedNewRecord, updatedAt: new Date().toISOString() };
-    this.validateSchema(formedNewRecord, true);
+    return this.updateMatched(matchedRecord ? [matchedRecord] : [], filter, update, options);
+  }
 
-    this.dataCache[recordId] = formedNewRecord;
+  /**
+   * Updates all records that match the filter. Either all records are updated or none if one fails validation.
+   *
+   * @param  {FilterQuery} filter search parameters
+   * @param  {Partial<T> | UpdateQuery} update partial record with new values or update operators like $set
+   * @param  {UpdateOptions} options upsert inserts a new record built from the filter and the update if none matches
+   * @returns {Promise<UpdateResult>} matched and modified counts, and the id of the upserted record
+   * @throws SchemaValidationError | InvalidQueryError
+   */
+  async updateMany(
+    filter: FilterQuery,
+    update: Partial<T> | UpdateQuery,
+    options: UpdateOptions = {}
+  ): Promise<UpdateResult> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
 
-    await this.saveFile();
+    const matchedRecords = findRecords(filter, this.indexes, this.dataCache, this.indexCache);
 
-    return formedNewRecord;
+    return this.updateMatched(matchedRecords, filter, update, options);
   }
 
   /**
@@ -409,6 +2550,8 @@ export class SkewerModel<T extends ISkewerModel> {
    * @throws RecordNotFoundError | SchemaValidationError
    */
   insertOrUpdate(record: Partial<T>, id: string): Promise<T> {
+    this.expireRecords();
+
     if (this.dataCache[id]) {
       return this.updateById(id, record);
     } else {
@@ -424,26 +2567,223 @@ export class SkewerModel<T extends ISkewerModel> {
    * @throws RecordNotFoundError
    */
   async deleteById(recordId: string): Promise<T> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
+
     const deletedRecord = this.dataCache[recordId];
 
     if (!deletedRecord) {
       throw new RecordNotFoundError();
     }
 
+    if (this.hasDeleteRules()) {
+      await this.runHooks('pre', 'delete', deletedRecord);
+      await this.applyDeleteRules([deletedRecord]);
+
+      // a concurrent write may have deleted the record while the hooks and rules ran
+      if (this.dataCache[recordId] !== deletedRecord) {
+        throw new RecordNotFoundError();
+      }
+    }
+
     delete this.dataCache[recordId];
+    this.markDirty(recordId, deletedRecord);
+    this.recordChange({ operationType: 'delete', id: recordId, previousDocument: deletedRecord });
 
     this.deleteInIndex(deletedRecord, recordId);
 
     await this.saveFile();
+    await this.runHooks('post', 'delete', deletedRecord);
 
     return deletedRecord;
   }
 
   /**
-   * Deletes all records in a collection
+   * Deletes all records that match the filter
+   *
+   * @param  {FilterQuery} filter search parameters
+   * @returns {Promise<DeleteResult>} count of deleted records
+   * @throws InvalidQueryError
+   */
+  async deleteMany(filter: FilterQuery): Promise<DeleteResult> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+    this.expireRecords();
+
+    const matchedRecords = findRecords(filter, this.indexes, this.dataCache, this.indexCache);
+
+    if (this.hasDeleteRules()) {
+      for (const record of matchedRecords) {
+        await this.runHooks('pre', 'delete', record);
+      }
+      await this.applyDeleteRules(matchedRecords);
+    }
+
+    const deletedRecords = matchedRecords.filter((record) => this.dataCache[record.id] === record);
+    deletedRecords.forEach((deletedRecord) => {
+      delete this.dataCache[deletedRecord.id];
+      this.markDirty(deletedRecord.id, deletedRecord);
+      this.recordChange({ operationType: 'delete', id: deletedRecord.id, previousDocument: deletedRecord });
+
+      this.deleteInIndex(deletedRecord, deletedRecord.id);
+    });
+
+    if (deletedRecords.length) {
+      await this.saveFile();
+    }
+
+    for (const record of deletedRecords) {
+      await this.runHooks('post', 'delete', record);
+    }
+
+    return { deletedCount: deletedRecords.length };
+  }
+
+  /**
+   * Deletes all records in a collection, the delete hooks run for every record
    */
   async deleteAll(): Promise<void> {
+    if (this.mustPrepareWrite()) await this.prepareWrite();
+
+    const deletedRecords = Object.values(this.dataCache);
+
+    if (this.hasDeleteRules()) {
+      for (const record of deletedRecords) {
+        await this.runHooks('pre', 'delete', record);
+      }
+      await this.applyDeleteRules(deletedRecords);
+    }
+
+    deletedRecords
+      .filter((record) => !this.savedRecords.has(record.id))
+      .forEach((record) => this.savedRecords.set(record.id, record));
     this.dataCache = {};
+    this.indexCache = {};
+    this.isIndexDirty = true;
+    this.dirtyIds.clear();
+    this.isCleared = true;
+    deletedRecords.forEach((record) =>
+      this.recordChange({ operationType: 'delete', id: record.id, previousDocument: record })
+    );
     await this.saveFile();
+
+    for (const record of deletedRecords) {
+      await this.runHooks('post', 'delete', record);
+    }
+  }
+
+  /**
+   * Writes the records to a stream as NDJSON, CSV or MongoDB Extended JSON, one record at a time and waiting for
+   * the stream to drain, so that large collections are not copied as a whole. Extended JSON can be imported with
+   * mongoimport, the id becomes the _id of the documents.
+   *
+   * @param  {Writable} stream e.g. fs.createWriteStream
+   * @param  {ExportOptions} options
+   * @returns {Promise<number>} the number of exported records
+   * @throws InvalidQueryError
+   */
+  async export(stream: Writable, options: ExportOptions = {}): Promise<number> {
+    const format = options.format || 'ndjson';
+    const fields = options.fields || ['id', ...csvFields(this.schema), 'createdAt', 'updatedAt'];
+    this.expireRecords();
+    // records are replaced and never changed in place, so the list stays consistent while the stream drains
+    const records = findRecords(options.filter || {}, this.indexes, this.dataCache, this.indexCache);
+
+    const writeLine = async (line: string): Promise<void> => {
+      if (!stream.write(`${line}\n`)) {
+        await once(stream, 'drain');
+      }
+    };
+
+    if (format === 'csv') {
+      await writeLine(toCsvRow(fields));
+    }
+
+    for (const record of records) {
+      if (format === 'csv') {
+        await writeLine(recordToCsv(record, fields));
+      } else {
+        await writeLine(format === 'ejson' ? toExtendedJson(record) : JSON.stringify(record));
+      }
+    }
+
+    if (options.end !== false) {
+      await new Promise<void>((resolve) => stream.end(resolve));
+    }
+
+    return records.length;
+  }
+
+  /**
+   * Reads records from a stream of NDJSON, CSV or MongoDB Extended JSON, e.g. written by export or mongoexport,
+   * and inserts them, or updates the records with their id in upsert mode. CSV values are converted to the types
+   * of the schema. Every row is validated and rows that fail are reported with their error while the others are
+   * imported, or nothing is imported with { transaction: true }. The ids of the rows are kept, the timestamps are
+   * set by the import.
+   *
+   * @param  {Readable} stream e.g. fs.createReadStream
+   * @param  {ImportOptions} options
+   * @returns {Promise<ImportReport>} the number of inserted and updated records and the errors of the failed rows
+   * @throws TransactionError
+   */
+  async import(stream: Readable, options: ImportOptions = {}): Promise<ImportReport> {
+    const report: ImportReport = { inserted: 0, updated: 0, errors: [] };
+
+    const importRows = async (rows: Array<{ row: number; record?: any; error?: Error }>): Promise<void> => {
+      for (const { row, record, error } of rows) {
+        try {
+          if (error) {
+            throw error;
+          }
+
+          if (options.mode === 'upsert' && record.id && this.dataCache[record.id]) {
+            await this.updateById(record.id, record);
+            report.updated += 1;
+          } else {
+            await this.insertOne(record, record.id);
+            report.inserted += 1;
+          }
+        } catch (rowError) {
+          report.errors.push({ row, message: rowError.message });
+        }
+      }
+    };
+
+    if (options.transaction) {
+      try {
+        await this.withTransaction(async () => {
+          for await (const row of this.readImportRows(stream, options.format || 'ndjson')) {
+            await importRows([row]);
+          }
+
+          if (report.errors.length) {
+            throw new TransactionError(`${report.errors.length} rows failed to import`);
+          }
+        });
+      } catch (error) {
+        if (!report.errors.length) {
+          throw error;
+        }
+
+        report.inserted = 0;
+        report.updated = 0;
+      }
+
+      return report;
+    }
+
+    // the rows are saved in batches, so that the collection is not rewritten for every row
+    let batch: Array<{ row: number; record?: any; error?: Error }> = [];
+    for await (const row of this.readImportRows(stream, options.format || 'ndjson')) {
+      batch.push(row);
+
+      if (batch.length >= CONSTANTS.importBatchSize) {
+        const rows = batch;
+        await this.withTransaction(() => importRows(rows));
+        batch = [];
+      }
+    }
+    await this.withTransaction(() => importRows(batch));
+
+    return report;
   }
 }
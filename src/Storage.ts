@@ -1,36 +1,341 @@
 import * as fs from 'fs';
+import { hostname } from 'os';
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+
+import { CONSTANTS } from './Constants';
+import { LockError } from './SkewerError';
+import { StorageAdapter } from './types';
+
+/**
+ * Checks if a process of this host is still running
+ *
+ * @param  {number} pid
+ * @returns boolean
+ */
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    // signal 0 only checks if the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // the process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+};
+
+export class FileStorageAdapter implements StorageAdapter {
+  readonly location: string;
+  private basePath: string;
+
+  /**
+   * Default constructor
+   *
+   * @param {string} basePath directory the files are stored in, defaults to "process.cwd()/storage"
+   */
+  constructor(basePath = `${process.cwd()}/storage`) {
+    this.basePath = basePath;
+    this.location = resolve(basePath);
+  }
+
+  // #region private methods
+  /**
+   * Resolves a key to a path in the base directory
+   *
+   * @param  {string} key
+   * @private
+   * @returns string
+   */
+  private resolve(key: string): string {
+    return join(this.basePath, key);
+  }
+
+  /**
+   * Generates a unique temp file key next to the target file
+   *
+   * @param  {string} key
+   * @private
+   * @returns string
+   */
+  private tempKey(key: string): string {
+    return `${key}.${randomUUID()}.tmp`;
+  }
+
+  /**
+   * Asynchronously writes data to a file and flushes it to disk before returning
+   *
+   * @param  {string} key
+   * @param  {string} data
+   * @private
+   * @returns Promise
+   */
+  private async writeDurable(key: string, data: string): Promise<void> {
+    const fileHandle = await fs.promises.open(this.resolve(key), 'w');
+
+    try {
+      await fileHandle.writeFile(data);
+      await fileHandle.sync();
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  /**
+   * Flushes the directory entry changes (renames) of the base directory to disk. Not supported on every platform.
+   *
+   * @private
+   * @returns Promise
+   */
+  private async syncDir(): Promise<void> {
+    try {
+      const dirHandle = await fs.promises.open(this.basePath, 'r');
+      try {
+        await dirHandle.sync();
+      } finally {
+        await dirHandle.close();
+      }
+    } catch {
+      // directories can not be opened / synced on all platforms (e.g. windows)
+    }
+  }
+
+  /**
+   * Renames a file, ignoring files that do not exist
+   *
+   * @param  {string} oldKey
+   * @param  {string} newKey
+   * @private
+   * @returns Promise
+   */
+  private async renameIfExists(oldKey: string, newKey: string): Promise<void> {
+    try {
+      await fs.promises.rename(this.resolve(oldKey), this.resolve(newKey));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Checks if the holder of a lock file crashed: a process of this host that is no longer running, or a lock of
+   * another host that is older than the stale time. A lock file without content is stale once it is that old.
+   *
+   * @param  {string} key
+   * @private
+   * @returns Promise<boolean>
+   */
+  private async isStaleLock(key: string): Promise<boolean> {
+    let holder: { pid: number; hostname: string; time: number };
+    try {
+      holder = JSON.parse(await this.read(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+
+      // the holder creates the file before it writes its content
+      const stats = await fs.promises.stat(this.resolve(key)).catch(() => undefined);
+      return !!stats && Date.now() - stats.mtimeMs > CONSTANTS.lockStaleTime;
+    }
+
+    if (holder.hostname === hostname()) {
+      return !isProcessAlive(holder.pid);
+    }
+
+    return Date.now() - holder.time > CONSTANTS.lockStaleTime;
+  }
+
+  /**
+   * Removes a stale lock file. Processes that see the same stale lock take turns through a takeover file, and the
+   * lock is checked again while holding it, so a lock that another process has taken over in the meantime is kept.
+   * A takeover file left behind by a crashed process is removed once it is stale itself.
+   *
+   * @param  {string} key key of the lock file
+   * @private
+   * @returns Promise
+   */
+  private async takeOverStaleLock(key: string): Promise<void> {
+    const takeoverKey = `${key}.takeover`;
+
+    try {
+      const holder = { pid: process.pid, hostname: hostname(), time: Date.now() };
+      await fs.promises.writeFile(this.resolve(takeoverKey), JSON.stringify(holder), { flag: 'wx' });
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      if (await this.isStaleLock(takeoverKey)) {
+        await this.remove(takeoverKey);
+      }
+
+      return;
+    }
+
+    try {
+      if (await this.isStaleLock(key)) {
+        await this.remove(key);
+      }
+    } finally {
+      await this.remove(takeoverKey);
+    }
+  }
+  // #endregion
+
+  /**
+   * Creates the base directory if it does not exist
+   *
+   * @returns Promise
+   */
+  async init(): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.basePath);
+    } catch (error) {
+      if (error.code === 'EEXIST') {
+        return;
+      }
+
+      throw error;
+    }
+  }
 
-export class FileStorage {
   /**
    * Asynchronously reads the entire contents of a file
    *
-   * @param  {string} path
+   * @param  {string} key
    * @returns Promise<string>
    */
-  static async read(path: string): Promise<string> {
-    return fs.promises.readFile(path, 'utf-8');
+  async read(key: string): Promise<string> {
+    return fs.promises.readFile(this.resolve(key), 'utf-8');
   }
 
   /**
-   * Asynchronously writes data to a file, replacing the file if it already exists
+   * Atomically writes data to a file by writing a temp file, flushing it and renaming it over the target.
+   * A crash leaves either the old or the new content, never a truncated file.
    *
-   * @param  {string} path
+   * @param  {string} key
    * @param  {string} data
    * @returns Promise
    */
-  static async write(path: string, data: string): Promise<void> {
-    return fs.promises.writeFile(path, data);
+  async write(key: string, data: string): Promise<void> {
+    const tempKey = this.tempKey(key);
+
+    await this.writeDurable(tempKey, data);
+    await fs.promises.rename(this.resolve(tempKey), this.resolve(key));
+    await this.syncDir();
+  }
+
+  /**
+   * Atomically writes several files together. All files are first written to flushed temp files, then a commit file
+   * listing them is written, and only then the temp files are renamed over the targets. If the process crashes,
+   * recover either finishes the renames (commit file present) or discards the temp files (no commit file).
+   * Commit keys must end with ".commit".
+   *
+   * @param  {Array<[string, string]>} files array of [key, data]
+   * @param  {string} commitKey key of the commit file
+   * @returns Promise
+   */
+  async writeMany(files: Array<[string, string]>, commitKey: string): Promise<void> {
+    const renames: Array<[string, string]> = [];
+
+    for (const [key, data] of files) {
+      const tempKey = this.tempKey(key);
+      await this.writeDurable(tempKey, data);
+      renames.push([tempKey, key]);
+    }
+
+    await this.write(commitKey, JSON.stringify(renames));
+
+    // a concurrent recover may already have finished some of the renames of this committed write
+    for (const [tempKey, key] of renames) {
+      await this.renameIfExists(tempKey, key);
+    }
+
+    await this.syncDir();
+    await this.remove(commitKey);
+  }
+
+  /**
+   * Recovers from a crash during writeMany. Rolls forward every write that was committed (a commit file is present),
+   * even if it also covered files of other collections, and then removes the leftover temp files of the given keys
+   * so the previous content stays in place.
+   *
+   * @param  {Array<string>} keys keys of the files to recover
+   * @returns Promise<boolean> true if an unfinished write was found
+   */
+  async recover(keys: Array<string>): Promise<boolean> {
+    let isRecovered = false;
+
+    if (!(await this.exists(''))) {
+      return isRecovered;
+    }
+
+    for (const commitKey of (await fs.promises.readdir(this.basePath)).filter((x) => x.endsWith('.commit'))) {
+      let renames: Array<[string, string]> = [];
+      try {
+        renames = JSON.parse(await this.read(commitKey));
+      } catch {
+        // the commit file itself is written atomically, so an unreadable one was never committed
+      }
+
+      for (const [tempKey, key] of renames) {
+        await this.renameIfExists(tempKey, key);
+      }
+
+      await this.remove(commitKey);
+      isRecovered = true;
+    }
+
+    for (const fileName of await fs.promises.readdir(this.basePath)) {
+      if (fileName.endsWith('.tmp') && keys.some((key) => fileName.startsWith(`${key}.`))) {
+        await this.remove(fileName);
+        isRecovered = true;
+      }
+    }
+
+    return isRecovered;
+  }
+
+  /**
+   * Asynchronously appends data to a file, creating it if missing, and flushes it to disk before returning
+   *
+   * @param  {string} key
+   * @param  {string} data
+   * @returns Promise
+   */
+  async append(key: string, data: string): Promise<void> {
+    const fileHandle = await fs.promises.open(this.resolve(key), 'a');
+
+    try {
+      await fileHandle.appendFile(data);
+      await fileHandle.sync();
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  /**
+   * Asynchronously truncates a file to the given length in bytes
+   *
+   * @param  {string} key
+   * @param  {number} length
+   * @returns Promise
+   */
+  async truncate(key: string, length: number): Promise<void> {
+    return fs.promises.truncate(this.resolve(key), length);
   }
 
   /**
-   * Tests a user's permissions for the location specified
+   * Tests a user's permissions for the file specified
    *
-   * @param  {string} path
+   * @param  {string} key
    * @returns Promise<boolean>
    */
-  static async exists(path: string): Promise<boolean> {
+  async exists(key: string): Promise<boolean> {
     try {
-      await fs.promises.access(path);
+      await fs.promises.access(this.resolve(key));
       return true;
     } catch {
       return false;
@@ -38,20 +343,255 @@ export class FileStorage {
   }
 
   /**
-   * Asynchronously creates a directory
+   * Returns the size of a file in bytes, 0 if the file does not exist
    *
-   * @param  {string} path
+   * @param  {string} key
+   * @returns Promise<number>
+   */
+  async size(key: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(this.resolve(key))).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Asynchronously removes a file, ignoring files that do not exist
+   *
+   * @param  {string} key
    * @returns Promise
    */
-  static async mkdir(path: string): Promise<void> {
+  async remove(key: string): Promise<void> {
     try {
-      await fs.promises.mkdir(path);
+      await fs.promises.unlink(this.resolve(key));
     } catch (error) {
-      if (error.code === 'EEXIST') {
+      if (error.code === 'ENOENT') {
         return;
       }
 
       throw error;
     }
   }
+
+  /**
+   * Lists the keys of all files in the base directory
+   *
+   * @returns Promise<Array<string>>
+   */
+  async list(): Promise<Array<string>> {
+    try {
+      return await fs.promises.readdir(this.basePath);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Acquires an advisory lock by exclusively creating a lock file that holds the pid and host of the holder.
+   * Waits while another holder has the lock, and takes the lock over if its holder crashed.
+   *
+   * @param  {string} key key of the lock file
+   * @returns Promise
+   * @throws LockError if the lock is not released within the lock timeout
+   */
+  async lock(key: string): Promise<void> {
+    const startTime = Date.now();
+
+    for (;;) {
+      try {
+        const holder = { pid: process.pid, hostname: hostname(), time: Date.now() };
+        await fs.promises.writeFile(this.resolve(key), JSON.stringify(holder), { flag: 'wx' });
+        return;
+      } catch (error) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.isStaleLock(key)) {
+        await this.takeOverStaleLock(key);
+        continue;
+      }
+      if (Date.now() - startTime >= CONSTANTS.lockTimeout) {
+        throw new LockError(key);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, CONSTANTS.lockRetryInterval));
+    }
+  }
+
+  /**
+   * Releases a lock by removing the lock file
+   *
+   * @param  {string} key key of the lock file
+   * @returns Promise
+   */
+  async unlock(key: string): Promise<void> {
+    await this.remove(key);
+  }
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly location: string;
+  private files: Map<string, string>;
+  // held locks and the promises that resolve once they are released
+  private locks: Map<string, { released: Promise<void>; release: () => void }>;
+
+  /**
+   * Default constructor, every instance is an isolated store that lives as long as the instance
+   */
+  constructor() {
+    this.location = `memory:${randomUUID()}`;
+    this.files = new Map();
+    this.locks = new Map();
+  }
+
+  /**
+   * Does nothing, the store exists as long as the instance
+   *
+   * @returns Promise
+   */
+  async init(): Promise<void> {}
+
+  /**
+   * Reads the contents of a file
+   *
+   * @param  {string} key
+   * @returns Promise<string>
+   * @throws Error with the code ENOENT if the file does not exist
+   */
+  async read(key: string): Promise<string> {
+    const data = this.files.get(key);
+
+    if (data === undefined) {
+      throw Object.assign(new Error(`ENOENT: no such file, ${key}`), { code: 'ENOENT' });
+    }
+
+    return data;
+  }
+
+  /**
+   * Replaces the contents of a file
+   *
+   * @param  {string} key
+   * @param  {string} data
+   * @returns Promise
+   */
+  async write(key: string, data: string): Promise<void> {
+    this.files.set(key, data);
+  }
+
+  /**
+   * Replaces the contents of several files together, no commit file is needed as nothing is written in between
+   *
+   * @param  {Array<[string, string]>} files keys and contents of the files
+   * @returns Promise
+   */
+  async writeMany(files: Array<[string, string]>): Promise<void> {
+    files.forEach(([key, data]) => this.files.set(key, data));
+  }
+
+  /**
+   * Nothing can be left half written in memory, so there is never anything to recover
+   *
+   * @returns Promise<boolean> always false
+   */
+  async recover(): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Appends data to a file, creating it if missing
+   *
+   * @param  {string} key
+   * @param  {string} data
+   * @returns Promise
+   */
+  async append(key: string, data: string): Promise<void> {
+    this.files.set(key, (this.files.get(key) || '') + data);
+  }
+
+  /**
+   * Truncates a file to the given length in bytes
+   *
+   * @param  {string} key
+   * @param  {number} length
+   * @returns Promise
+   */
+  async truncate(key: string, length: number): Promise<void> {
+    const buffer = Buffer.from(this.files.get(key) || '');
+    this.files.set(key, buffer.subarray(0, length).toString());
+  }
+
+  /**
+   * Checks if a file exists
+   *
+   * @param  {string} key
+   * @returns Promise<boolean>
+   */
+  async exists(key: string): Promise<boolean> {
+    return this.files.has(key);
+  }
+
+  /**
+   * Returns the size of a file in bytes, 0 if it does not exist
+   *
+   * @param  {string} key
+   * @returns Promise<number>
+   */
+  async size(key: string): Promise<number> {
+    return Buffer.byteLength(this.files.get(key) || '');
+  }
+
+  /**
+   * Removes a file, files that do not exist are ignored
+   *
+   * @param  {string} key
+   * @returns Promise
+   */
+  async remove(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+
+  /**
+   * Lists the keys of all files in the store
+   *
+   * @returns Promise<Array<string>>
+   */
+  async list(): Promise<Array<string>> {
+    return [...this.files.keys()];
+  }
+
+  /**
+   * Acquires a lock, waits while it is held. The store can only be shared within this process, so the locks are
+   * kept in memory.
+   *
+   * @param  {string} key
+   * @returns Promise
+   */
+  async lock(key: string): Promise<void> {
+    while (this.locks.has(key)) {
+      await this.locks.get(key)?.released;
+    }
+
+    let release: () => void = () => undefined;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    this.locks.set(key, { released, release });
+  }
+
+  /**
+   * Releases a lock and wakes up the waiting writers
+   *
+   * @param  {string} key
+   * @returns Promise
+   */
+  async unlock(key: string): Promise<void> {
+    this.locks.get(key)?.release();
+    this.locks.delete(key);
+  }
 }
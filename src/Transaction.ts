@@ -0,0 +1,245 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+import type { SkewerModel } from './SkewerModel';
+import { TransactionError } from './SkewerError';
+import { ModelState } from './types';
+
+// holds the transaction of the async call chain that runs a transaction callback
+const transactionContext = new AsyncLocalStorage<Transaction>();
+
+export class Transaction {
+  readonly models: Array<SkewerModel<any>>;
+  readonly isScoped: boolean;
+  // stack of model states, the first entry is the state at the start of the transaction
+  private savepoints: Array<Array<ModelState<any>>>;
+  private isFinished: boolean;
+
+  /**
+   * Default constructor, use Transaction.run or SkewerModel.withTransaction to start a transaction
+   *
+   * @param {Array<SkewerModel<any>>} models models that take part in the transaction
+   * @param {boolean} isScoped true if the transaction is bound to a callback, writes made outside of it will wait
+   */
+  constructor(models: Array<SkewerModel<any>>, isScoped: boolean) {
+    this.models = [...new Set(models)].sort((a, b) => a.name.localeCompare(b.name));
+    this.isScoped = isScoped;
+    this.savepoints = [];
+    this.isFinished = false;
+
+    if (new Set(this.models.map((x) => x.getStorage().location)).size > 1) {
+      throw new TransactionError('all models of a transaction must use the same storage');
+    }
+  }
+
+  // #region private methods
+  /**
+   * Attaches the transaction to its models and captures their state for rollback
+   *
+   * @private
+   * @returns void
+   */
+  private begin(): void {
+    this.models.forEach((model) => model.attachTransaction(this));
+    this.savepoints.push(this.models.map((model) => model.captureState()));
+  }
+
+  /**
+   * Detaches the transaction from its models, which lets waiting writes continue
+   *
+   * @private
+   * @returns void
+   */
+  private finish(): void {
+    this.isFinished = true;
+    this.models.forEach((model) => model.detachTransaction(this));
+  }
+
+  /**
+   * Writes the changes of all models to disk together with a single atomic write. The transaction is finished once
+   * the write succeeded, and rolled back if it fails.
+   *
+   * @private
+   * @returns Promise
+   */
+  private async commitTogether(): Promise<void> {
+    const snapshots = this.models.map((model) => model.prepareSnapshot());
+    const files = snapshots.flatMap((x) => x.files);
+
+    let finishCommit: (error?: Error) => void = () => undefined;
+    const commitDone = new Promise<void>((resolve, reject) => {
+      finishCommit = (error?: Error) => (error ? reject(error) : resolve());
+    });
+
+    // takes a slot in the write queue of every model, so the commit waits for pending writes and blocks new ones
+    const takeSlot = (model: SkewerModel<any>): Promise<void> =>
+      new Promise<void>((resolve, reject) => {
+        // fails before the slot is reached if the model is read-only, locked or changed by another process
+        model
+          .enqueueWrite(() => {
+            resolve();
+            return commitDone;
+          })
+          .catch(reject);
+      });
+
+    try {
+      // one at a time and always in the same order, so that two commits over the same models can not wait for
+      // each other
+      for (const model of [...this.models].sort((a, b) => a.name.localeCompare(b.name))) {
+        await takeSlot(model);
+      }
+      await this.models[0].getStorage().writeMany(files, `transaction-${randomUUID()}.commit`);
+      snapshots.forEach((x) => x.onWritten());
+    } catch (error) {
+      finishCommit(error);
+      this.rollback();
+      throw error;
+    }
+
+    this.finish();
+    finishCommit();
+  }
+  // #endregion
+
+  /**
+   * Returns the transaction of the current async call chain, if any
+   *
+   * @returns Transaction | undefined
+   */
+  static current(): Transaction | undefined {
+    return transactionContext.getStore();
+  }
+
+  /**
+   * Runs the callback in a transaction over the models. The changes are committed together when the callback
+   * resolves, and rolled back in memory if it throws. Writes to the models made outside of the callback wait until
+   * the transaction is finished. Called inside another transaction over the same models, it runs as a savepoint.
+   *
+   * @param  {Array<SkewerModel<any>>} models models that take part in the transaction
+   * @param  {Function} callback
+   * @returns {Promise<R>} the result of the callback
+   * @throws TransactionError
+   */
+  static async run<R>(models: Array<SkewerModel<any>>, callback: (transaction: Transaction) => Promise<R>): Promise<R> {
+    const current = Transaction.current();
+
+    if (current && !current.isFinished) {
+      if (!models.every((model) => current.models.includes(model))) {
+        throw new TransactionError('a nested transaction can only use the models of its parent transaction');
+      }
+
+      return current.savepoint(() => callback(current));
+    }
+
+    const transaction = new Transaction(models, true);
+
+    // another transaction may start on one of the models while waiting for the previous one
+    while (transaction.models.some((model) => model.getTransaction())) {
+      await Promise.all(transaction.models.map((model) => model.waitForTransaction()));
+    }
+
+    transaction.begin();
+
+    try {
+      const result = await transactionContext.run(transaction, () => callback(transaction));
+      await transaction.commit();
+
+      return result;
+    } catch (error) {
+      if (!transaction.isFinished) {
+        transaction.rollback();
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a transaction that is not bound to a callback, used by SkewerModel.openTransaction
+   *
+   * @param  {Array<SkewerModel<any>>} models
+   * @returns Transaction
+   * @throws TransactionError
+   */
+  static open(models: Array<SkewerModel<any>>): Transaction {
+    const transaction = new Transaction(models, false);
+
+    if (transaction.models.some((model) => model.getTransaction())) {
+      throw new TransactionError('a transaction is already open');
+    }
+
+    transaction.begin();
+
+    return transaction;
+  }
+
+  /**
+   * Runs the callback as a savepoint. If the callback throws, only the changes made since the savepoint are
+   * rolled back and the error is rethrown.
+   *
+   * @param  {Function} callback
+   * @returns {Promise<R>} the result of the callback
+   * @throws TransactionError
+   */
+  async savepoint<R>(callback: () => Promise<R>): Promise<R> {
+    if (this.isFinished) {
+      throw new TransactionError('the transaction is already finished');
+    }
+
+    this.savepoints.push(this.models.map((model) => model.captureState()));
+
+    try {
+      const result = await callback();
+      this.savepoints.pop();
+
+      return result;
+    } catch (error) {
+      const states = this.savepoints.pop() as Array<ModelState<any>>;
+      this.models.forEach((model, i) => model.restoreState(states[i]));
+
+      throw error;
+    }
+  }
+
+  /**
+   * Saves the changes of all models to disk and finishes the transaction. If the save fails, e.g. with a
+   * ConflictError, the changes are rolled back and the error is rethrown.
+   *
+   * @returns Promise
+   * @throws TransactionError
+   */
+  async commit(): Promise<void> {
+    if (this.isFinished) {
+      throw new TransactionError('the transaction is already finished');
+    }
+
+    if (this.models.length > 1) {
+      return this.commitTogether();
+    }
+
+    try {
+      await this.models[0].saveTransaction();
+    } catch (error) {
+      this.rollback();
+      throw error;
+    }
+
+    this.finish();
+  }
+
+  /**
+   * Restores the state of all models from the start of the transaction and finishes it
+   *
+   * @returns void
+   * @throws TransactionError
+   */
+  rollback(): void {
+    if (this.isFinished) {
+      throw new TransactionError('the transaction is already finished');
+    }
+
+    this.models.forEach((model, i) => model.restoreState(this.savepoints[0][i]));
+    this.finish();
+  }
+}
@@ -0,0 +1,506 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { resolve } from 'path';
+import { Readable, Writable } from 'stream';
+import { finished } from 'stream/promises';
+
+import { SkewerDatabase } from './SkewerDatabase';
+import { SkewerModel } from './SkewerModel';
+import { CompressionFormat, DataFormat, ImportOptions, ModelOptions } from './types';
+import { fromExtendedValue } from './utils/formatAlgo';
+
+export type CliIO = {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+  env?: { [name: string]: string | undefined };
+};
+
+type CliArgs = {
+  command?: string;
+  args: Array<string>;
+  flags: { [name: string]: string | boolean };
+};
+
+const usage = `Usage: skewer [--dir <path>] [--models <module>] <command> [arguments]
+
+Commands:
+  list                                   collections with their record counts and file sizes
+  find <collection> [filter]             prints the matching records, options --sort, --skip and --limit
+  get <collection> <id>                  prints a record
+  insert <collection> <record>           inserts a record and prints it
+  update <collection> <id> <update>      updates a record with fields or update operators and prints it
+  delete <collection> <id>               deletes a record and prints it
+  export <collection>                    writes the records to stdout or --out <file>, options --format,
+                                         --filter and --fields
+  import <collection>                    reads records from stdin or --in <file>, options --format,
+                                         --mode insert|upsert and --transaction
+  verify-indexes <collection>            compares the index file with the records
+  rebuild-indexes <collection>           rebuilds the index file from the records
+  compact <collection>                   folds the journal into the data file
+
+Options:
+  --dir <path>                           storage directory, defaults to ./storage
+  --models <module>                      module that exports models, so that their schema and options apply
+  --compression gzip|brotli              compression of collections opened without a model module
+  --help                                 prints this help
+
+Filters, records and updates are JSON, dates can be given as {"$date": "2024-01-01T00:00:00Z"}.
+Collections opened without a model module use the key of SKEWER_ENCRYPTION_KEY if set.
+`;
+
+// commands that only read the collection, collections without a model module are opened read-only for them
+const readCommands = ['list', 'find', 'get', 'export', 'verify-indexes'];
+const booleanFlags = ['transaction', 'help'];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Splits the command line into the command, its arguments and the --name value flags
+ *
+ * @param  {Array<string>} argv
+ * @returns CliArgs
+ * @throws UsageError if a flag is missing its value
+ */
+const parseArgs = (argv: Array<string>): CliArgs => {
+  const positional: Array<string> = [];
+  const flags: CliArgs['flags'] = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h' || arg === '--help') {
+      flags.help = true;
+    } else if (arg.startsWith('--')) {
+      const name = arg.slice(2);
+
+      if (booleanFlags.includes(name)) {
+        flags[name] = true;
+      } else if (i + 1 < argv.length) {
+        flags[name] = argv[++i];
+      } else {
+        throw new UsageError(`The option ${arg} needs a value`);
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { command: positional[0], args: positional.slice(1), flags };
+};
+
+/**
+ * Parses a JSON argument, Extended JSON values like { $date } become dates
+ *
+ * @param  {string} text
+ * @param  {string} name name of the argument for the error message
+ * @returns any
+ * @throws UsageError if the argument is no valid JSON
+ */
+const parseJson = (text: string, name: string): any => {
+  try {
+    return fromExtendedValue(JSON.parse(text));
+  } catch (error) {
+    throw new UsageError(`The ${name} is no valid JSON`);
+  }
+};
+
+/**
+ * Parses a numeric flag
+ *
+ * @param  {string | boolean} value
+ * @param  {string} name
+ * @returns number | undefined
+ * @throws UsageError if the value is no non-negative integer
+ */
+const parseCount = (value: string | boolean | undefined, name: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new UsageError(`The option --${name} has to be a non-negative integer`);
+  }
+
+  return count;
+};
+
+/**
+ * Checks if a value is a model, models of a module can come from another copy of the package, so the check does
+ * not use instanceof
+ *
+ * @param  {any} value
+ * @returns boolean
+ */
+const isModel = (value: any): value is SkewerModel<any> =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.name === 'string' &&
+  typeof value.initialize === 'function' &&
+  typeof value.getSchema === 'function';
+
+/**
+ * Checks if a value is a database with registered models
+ *
+ * @param  {any} value
+ * @returns boolean
+ */
+const isDatabase = (value: any): value is SkewerDatabase =>
+  !!value && typeof value === 'object' && typeof value.getModels === 'function';
+
+/**
+ * Checks if a value is a factory function like () => db.model('users', UserSchema), classes are left out
+ *
+ * @param  {any} value
+ * @param  {string} name exported name of the value
+ * @returns boolean
+ */
+const isModelFactory = (value: any, name: string): value is () => any =>
+  typeof value === 'function' &&
+  value.length === 0 &&
+  /Model$/.test(name) &&
+  !/^class\b/.test(Function.prototype.toString.call(value));
+
+/**
+ * Loads the models exported by a module, either as model instances, as factory functions named like UserModel
+ * or through an exported database. TypeScript modules are loaded with ts-node.
+ *
+ * @param  {string} modulePath
+ * @returns {Promise<Map<string, SkewerModel<any>>>} the models by collection name
+ * @throws UsageError if a TypeScript module is given and ts-node is not installed
+ */
+const loadModels = async (modulePath: string): Promise<Map<string, SkewerModel<any>>> => {
+  const path = resolve(modulePath);
+
+  if (/\.[cm]?tsx?$/.test(path) && !require.extensions['.ts']) {
+    try {
+      await import('ts-node/register');
+    } catch (error) {
+      throw new UsageError(`Loading the TypeScript module ${modulePath} needs ts-node`);
+    }
+  }
+
+  const exported = await import(path);
+  const models = new Map<string, SkewerModel<any>>();
+  const databases: Array<SkewerDatabase> = [];
+
+  for (const [name, value] of Object.entries<any>(exported)) {
+    if (isModel(value)) {
+      models.set(value.name, value);
+    } else if (isDatabase(value)) {
+      databases.push(value);
+    } else if (isModelFactory(value, name)) {
+      const model = value();
+      if (isModel(model)) models.set(model.name, model);
+    }
+  }
+
+  // models registered in an exported database by modules that are not exported themselves
+  databases.forEach((database) =>
+    database.getModels().forEach((model) => !models.has(model.name) && models.set(model.name, model))
+  );
+
+  return models;
+};
+
+/**
+ * Opens the collections of the storage directory, through the models of the model module if it has one for the
+ * collection, or without a schema otherwise
+ */
+class Collections {
+  private database: SkewerDatabase;
+  private models: Map<string, SkewerModel<any>>;
+  private options: ModelOptions;
+  private openedModels: Set<SkewerModel<any>>;
+
+  constructor(dir: string, models: Map<string, SkewerModel<any>>, options: ModelOptions) {
+    this.database = new SkewerDatabase(dir);
+    this.models = models;
+    this.options = options;
+    this.openedModels = new Set();
+  }
+
+  /**
+   * Lists the collections of the storage directory and of the model module
+   *
+   * @returns Promise<Array<string>>
+   */
+  async list(): Promise<Array<string>> {
+    return [...new Set([...(await this.database.listCollections()), ...this.models.keys()])].sort();
+  }
+
+  /**
+   * Returns the initialized model of a collection
+   *
+   * @param  {string} name
+   * @returns Promise<SkewerModel<any>>
+   */
+  async open(name: string): Promise<SkewerModel<any>> {
+    const model = this.models.get(name) || this.database.model(name, {}, this.options);
+
+    if (!this.openedModels.has(model)) {
+      // migrations only run through the model module, which knows them
+      await model.initialize({ migrate: this.models.has(name) });
+      this.openedModels.add(model);
+    }
+
+    return model;
+  }
+
+  /**
+   * Saves the pending changes of the opened models and stops their TTL sweepers
+   *
+   * @returns Promise
+   */
+  async close(): Promise<void> {
+    for (const model of this.openedModels) {
+      await model.close();
+    }
+  }
+}
+
+/**
+ * Writes a value as indented JSON
+ *
+ * @param  {Writable} stream
+ * @param  {any} value
+ * @returns void
+ */
+const printJson = (stream: Writable, value: any): void => {
+  stream.write(`${JSON.stringify(value, null, 2)}\n`);
+};
+
+/**
+ * Writes rows as a table with aligned columns
+ *
+ * @param  {Writable} stream
+ * @param  {Array<Array<string>>} rows the first row is the header
+ * @returns void
+ */
+const printTable = (stream: Writable, rows: Array<Array<string>>): void => {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+
+  rows.forEach((row) =>
+    stream.write(
+      `${row
+        .map((x, i) => x.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd()}\n`
+    )
+  );
+};
+
+/**
+ * Returns the argument at the position or fails with the usage of the command
+ *
+ * @param  {CliArgs} cliArgs
+ * @param  {number} position
+ * @param  {string} name
+ * @returns string
+ * @throws UsageError
+ */
+const requireArg = ({ command, args }: CliArgs, position: number, name: string): string => {
+  if (args[position] === undefined) {
+    throw new UsageError(`The command ${command} needs the argument <${name}>`);
+  }
+
+  return args[position];
+};
+
+/**
+ * Opens a file for writing, fails if it can not be created, e.g. because its directory does not exist
+ *
+ * @param  {string} path
+ * @returns Promise<fs.WriteStream>
+ */
+const openWriteStream = (path: string): Promise<fs.WriteStream> =>
+  new Promise((done, reject) => {
+    const stream = fs.createWriteStream(path);
+    stream.once('open', () => done(stream)).once('error', reject);
+  });
+
+/**
+ * Returns the data format of the --format flag
+ *
+ * @param  {string | boolean} value
+ * @returns DataFormat | undefined
+ * @throws UsageError
+ */
+const parseFormat = (value: string | boolean | undefined): DataFormat | undefined => {
+  if (value !== undefined && !['ndjson', 'csv', 'ejson'].includes(value as string)) {
+    throw new UsageError('The option --format has to be ndjson, csv or ejson');
+  }
+
+  return value as DataFormat | undefined;
+};
+
+/**
+ * Runs a command on the collections
+ *
+ * @param  {CliArgs} cliArgs
+ * @param  {Collections} collections
+ * @param  {CliIO} io
+ * @returns {Promise<number>} the exit code
+ */
+const runCommand = async (cliArgs: CliArgs, collections: Collections, io: CliIO): Promise<number> => {
+  const { command, flags } = cliArgs;
+
+  if (command === 'list') {
+    const rows = [['NAME', 'RECORDS', 'SIZE']];
+
+    for (const name of await collections.list()) {
+      const { records, size } = await (await collections.open(name)).stats();
+      rows.push([name, String(records), String(size)]);
+    }
+
+    printTable(io.stdout, rows);
+    return 0;
+  }
+
+  const model = await collections.open(requireArg(cliArgs, 0, 'collection'));
+
+  switch (command) {
+    case 'find': {
+      const query = model.find(cliArgs.args[1] ? parseJson(cliArgs.args[1], 'filter') : {});
+      const skip = parseCount(flags.skip, 'skip'),
+        limit = parseCount(flags.limit, 'limit');
+
+      if (typeof flags.sort === 'string') query.sort(parseJson(flags.sort, 'sort'));
+      if (skip !== undefined) query.skip(skip);
+      if (limit !== undefined) query.limit(limit);
+
+      printJson(io.stdout, await query.exec());
+      return 0;
+    }
+    case 'get': {
+      const record = model.findById(requireArg(cliArgs, 1, 'id'));
+
+      if (!record) {
+        io.stderr.write(`The record ${cliArgs.args[1]} was not found in ${model.name}\n`);
+        return 1;
+      }
+
+      printJson(io.stdout, record);
+      return 0;
+    }
+    case 'insert':
+      printJson(io.stdout, await model.insertOne(parseJson(requireArg(cliArgs, 1, 'record'), 'record')));
+      return 0;
+    case 'update': {
+      const id = requireArg(cliArgs, 1, 'id');
+
+      printJson(io.stdout, await model.updateById(id, parseJson(requireArg(cliArgs, 2, 'update'), 'update')));
+      return 0;
+    }
+    case 'delete':
+      printJson(io.stdout, await model.deleteById(requireArg(cliArgs, 1, 'id')));
+      return 0;
+    case 'export': {
+      const out = typeof flags.out === 'string' ? await openWriteStream(flags.out) : undefined;
+      const count = await model.export(out || io.stdout, {
+        format: parseFormat(flags.format),
+        filter: typeof flags.filter === 'string' ? parseJson(flags.filter, 'filter') : undefined,
+        fields: typeof flags.fields === 'string' ? flags.fields.split(',') : undefined,
+        // stdout stays open
+        end: !!out,
+      });
+
+      if (out) {
+        await finished(out);
+        io.stderr.write(`Exported ${count} records of ${model.name}\n`);
+      }
+      return 0;
+    }
+    case 'import': {
+      if (flags.mode !== undefined && flags.mode !== 'insert' && flags.mode !== 'upsert') {
+        throw new UsageError('The option --mode has to be insert or upsert');
+      }
+
+      const report = await model.import(typeof flags.in === 'string' ? fs.createReadStream(flags.in) : io.stdin, {
+        format: parseFormat(flags.format),
+        mode: flags.mode as ImportOptions['mode'],
+        transaction: !!flags.transaction,
+      });
+
+      printJson(io.stdout, report);
+      return report.errors.length ? 1 : 0;
+    }
+    case 'verify-indexes': {
+      const report = model.verifyIndexes();
+
+      printJson(io.stdout, report);
+      return report.isValid ? 0 : 1;
+    }
+    case 'rebuild-indexes':
+      await model.rebuildIndexes();
+      io.stderr.write(`Rebuilt the indexes of ${model.name}\n`);
+      return 0;
+    case 'compact':
+      await model.compact();
+      io.stderr.write(`Compacted ${model.name}\n`);
+      return 0;
+    default:
+      throw new UsageError(`Unknown command ${command}`);
+  }
+};
+
+/**
+ * Runs the command line tool
+ *
+ * @param  {Array<string>} argv the arguments without the node and script paths
+ * @param  {CliIO} io streams and environment of the process
+ * @returns {Promise<number>} the exit code, 1 if the command failed and 2 for invalid arguments
+ */
+export const run = async (argv: Array<string>, io: CliIO): Promise<number> => {
+  let collections: Collections | undefined;
+
+  try {
+    const cliArgs = parseArgs(argv);
+    const { command, flags } = cliArgs;
+
+    if (flags.help || !command || command === 'help') {
+      io.stdout.write(usage);
+      return 0;
+    }
+    if (flags.compression !== undefined && flags.compression !== 'gzip' && flags.compression !== 'brotli') {
+      throw new UsageError('The option --compression has to be gzip or brotli');
+    }
+
+    const models = typeof flags.models === 'string' ? await loadModels(flags.models) : new Map();
+    const encryptionKey = (io.env ?? process.env).SKEWER_ENCRYPTION_KEY;
+
+    collections = new Collections(resolve(typeof flags.dir === 'string' ? flags.dir : 'storage'), models, {
+      readOnly: readCommands.includes(command),
+      compression: flags.compression as CompressionFormat | undefined,
+      encryptionKey: encryptionKey || undefined,
+    });
+
+    return await runCommand(cliArgs, collections, io);
+  } catch (error) {
+    if (error.name === 'UsageError') {
+      io.stderr.write(`${error.message}\n\n${usage}`);
+      return 2;
+    }
+
+    io.stderr.write(`${error.name}: ${error.message}\n`);
+    return 1;
+  } finally {
+    await collections?.close();
+  }
+};
+
+if (require.main === module) {
+  run(process.argv.slice(2), process)
+    .then((code) => (process.exitCode = code))
+    .catch((error) => {
+      // e.g. closing the collections failed after the command ran
+      process.stderr.write(`${error.name}: ${error.message}\n`);
+      process.exitCode = 1;
+    });
+}
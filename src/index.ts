@@ -1,2 +1,79 @@
 export { SkewerModel } from './SkewerModel';
-export { ISkewerModel, SchemaType } from './types';
+export { SkewerDatabase } from './SkewerDatabase';
+export { Query } from './Query';
+export { Transaction } from './Transaction';
+export { ChangeStream } from './ChangeStream';
+export { createServer } from './Server';
+export { FileStorageAdapter, MemoryStorageAdapter } from './Storage';
+export {
+  ISkewerModel,
+  SchemaType,
+  FilterQuery,
+  QueryOperators,
+  SortType,
+  ProjectionType,
+  UpdateQuery,
+  UpdateOptions,
+  UpdateResult,
+  DeleteResult,
+  ModelOptions,
+  JournalOptions,
+  EncryptionKey,
+  CompressionFormat,
+  StorageAdapter,
+  CollectionStats,
+  DatabaseStats,
+  CollectionSnapshot,
+  BackupOptions,
+  BackupManifest,
+  DataFormat,
+  ExportOptions,
+  ImportOptions,
+  ImportReport,
+  ServerOptions,
+  SchemaDefinition,
+  SchemaField,
+  SchemaFieldType,
+  SchemaValidationFailure,
+  Migration,
+  InitializeOptions,
+  MigrateOptions,
+  MigrationReport,
+  IndexDefinition,
+  IndexOptions,
+  FindOptions,
+  SearchOptions,
+  SearchResult,
+  PipelineStage,
+  GroupStage,
+  GroupAccumulator,
+  UnwindOptions,
+  LookupOptions,
+  HookEvent,
+  HookFunction,
+  ChangeOperation,
+  ChangeEvent,
+  ReferenceDeleteRule,
+  SchemaReference,
+  SchemaTtlField,
+  IndexMismatch,
+  IndexVerifyReport,
+} from './types';
+export {
+  SkewerError,
+  SchemaValidationError,
+  RecordNotFoundError,
+  FileLoadError,
+  DuplicateIdError,
+  InvalidQueryError,
+  TransactionError,
+  ModelRegistrationError,
+  MigrationError,
+  IndexError,
+  ReferenceIntegrityError,
+  LockError,
+  ConflictError,
+  ReadOnlyError,
+  EncryptionError,
+  SnapshotError,
+} from './SkewerError';
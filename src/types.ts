@@ -1,11 +1,70 @@
+import type { SkewerModel } from './SkewerModel';
+
+export type SchemaFieldType =
+  | StringConstructor
+  | NumberConstructor
+  | BooleanConstructor
+  | ArrayConstructor
+  | DateConstructor
+  | ObjectConstructor;
+
+// returns false if the value is invalid, receives the whole record as second argument
+export type SchemaValidator = (value: any, record: any) => boolean;
+
+export type SchemaField = {
+  // a constructor, a nested schema or an array with the definition of its items like [{ type: String }]
+  type: SchemaFieldType | SchemaType | [SchemaDefinition];
+  required?: boolean;
+  enum?: Array<any>;
+  unique?: boolean;
+  // 'sorted' creates an ordered index that also serves range queries and sorting
+  index?: boolean | 'sorted';
+  // builds a full-text index on a String field (or an array of strings) for search
+  text?: boolean;
+  // name of the model the ids of the field refer to, the model has to be registered with the same SkewerDatabase
+  ref?: string;
+  // what happens to this record when the referenced record is deleted, defaults to 'restrict'
+  onDelete?: ReferenceDeleteRule;
+  // value used when the field is missing on insert, functions are called for every record
+  default?: any;
+  min?: number | Date;
+  max?: number | Date;
+  minLength?: number;
+  maxLength?: number;
+  match?: RegExp;
+  validate?: SchemaValidator | { validator: SchemaValidator; message: string };
+  // seconds after the date of the field (a Date or an ISO date string) when the record expires, e.g. on createdAt
+  expires?: number;
+};
+
+// a field definition, a nested schema, or an array with the definition of its items
+export type SchemaDefinition = SchemaField | SchemaType | [SchemaDefinition];
+
 export type SchemaType = {
-  [key: string]: {
-    type: StringConstructor | NumberConstructor | BooleanConstructor | ArrayConstructor;
-    required?: boolean;
-    enum?: Array<string>;
-    unique?: boolean;
-    index?: boolean;
-  };
+  [key: string]: SchemaDefinition;
+};
+
+export type ReferenceDeleteRule = 'restrict' | 'cascade' | 'setNull';
+
+export type SchemaReference = {
+  // dotted path of the field holding the id, or an array of ids
+  path: string;
+  model: string;
+  isArray: boolean;
+  onDelete: ReferenceDeleteRule;
+};
+
+export type SchemaTtlField = {
+  // dotted path of the date the record expires after
+  path: string;
+  // seconds the record lives after the date
+  expires: number;
+};
+
+export type SchemaValidationFailure = {
+  // dotted path of the field, e.g. "address.city" or "tags.0"
+  path: string;
+  criteria: string;
 };
 
 export interface ISkewerModel {
@@ -17,6 +76,377 @@ export interface ISkewerModel {
 
 export type DataCacheType<T> = { [key: string]: T };
 
-export type IndexCache = { [indexedField: string]: { [indexedFieldValue: string]: Array<string> } };
+// index key to the ids of the records with that key
+export type HashIndexEntries = { [indexKey: string]: Array<string> };
+
+// [value, id] pairs ordered by value, records with the same value keep the order they were added in
+export type SortedIndexEntries = Array<[any, string]>;
+
+// term to the number of times it occurs per record id, and the number of terms per record id
+export type TextIndexEntries = {
+  terms: { [term: string]: { [id: string]: number } };
+  lengths: { [id: string]: number };
+};
+
+export type IndexCache = { [indexName: string]: HashIndexEntries | SortedIndexEntries | TextIndexEntries };
+
+export type IndexDefinition = {
+  name: string;
+  // dotted paths of the indexed fields, more than one for compound indexes
+  fields: Array<string>;
+  unique?: boolean;
+  // records without a value for the fields are not indexed, and not checked by unique indexes
+  sparse?: boolean;
+  // ordered index on a single field that also serves range queries and sorting
+  sorted?: boolean;
+  // full-text index on a single field, only used by search
+  text?: boolean;
+  // true for the indexes defined by the unique and index flags of the schema
+  schema?: boolean;
+};
+
+export type IndexOptions = {
+  // defaults to the fields joined with "_"
+  name?: string;
+  unique?: boolean;
+  sparse?: boolean;
+  sorted?: boolean;
+  text?: boolean;
+};
+
+export type FindOptions = {
+  sort?: SortType;
+  // number of records needed in sort order, allows a sorted index to stop early
+  limit?: number;
+};
+
+export type SearchOptions = {
+  // text indexed fields to search in, defaults to all of them
+  fields?: Array<string>;
+  limit?: number;
+};
+
+export type SearchResult<T> = {
+  record: T;
+  // relevance of the record for the search terms, higher is better
+  score: number;
+};
+
+export type IndexMismatch = {
+  index: string;
+  key: string;
+  // ids that the data has under the key but the index does not
+  missingIds: Array<string>;
+  // ids that the index has under the key but the data does not
+  extraIds: Array<string>;
+};
+
+export type IndexVerifyReport = {
+  isValid: boolean;
+  mismatches: Array<IndexMismatch>;
+};
 
 export type FindObject = { [key: string]: string };
+
+export type QueryOperators = {
+  $eq?: any;
+  $ne?: any;
+  $gt?: any;
+  $gte?: any;
+  $lt?: any;
+  $lte?: any;
+  $in?: Array<any>;
+  $nin?: Array<any>;
+  $exists?: boolean;
+  $regex?: RegExp | string;
+  $options?: string;
+  $size?: number;
+  $all?: Array<any>;
+  $not?: QueryOperators | RegExp | any;
+};
+
+export type FilterQuery = {
+  [key: string]: any;
+  $and?: Array<FilterQuery>;
+  $or?: Array<FilterQuery>;
+  $nor?: Array<FilterQuery>;
+};
+
+export type SortType = { [key: string]: 1 | -1 | 'asc' | 'desc' };
+
+export type ProjectionType = { [key: string]: 0 | 1 };
+
+export type UpdateQuery = {
+  $set?: { [key: string]: any };
+  $unset?: { [key: string]: any };
+  $inc?: { [key: string]: number };
+  $mul?: { [key: string]: number };
+  $min?: { [key: string]: any };
+  $max?: { [key: string]: any };
+  $push?: { [key: string]: any };
+  $addToSet?: { [key: string]: any };
+  $pull?: { [key: string]: any };
+  $rename?: { [key: string]: string };
+};
+
+// accumulators of a $group stage, the values are expressions like '$age' or 1, $count takes an empty object
+export type GroupAccumulator = {
+  $sum?: any;
+  $avg?: any;
+  $min?: any;
+  $max?: any;
+  $push?: any;
+  $count?: Record<string, never>;
+};
+
+// _id is the expression to group by, e.g. '$city', { city: '$city', active: '$active' } or null for all records,
+// the other fields are GroupAccumulator objects
+export type GroupStage = { _id: any; [field: string]: any };
+
+export type UnwindOptions = {
+  // path of the array field, with or without a leading $
+  path: string;
+  // keeps records whose field is missing or an empty array
+  preserveNullAndEmptyArrays?: boolean;
+};
+
+export type LookupOptions = {
+  from: SkewerModel<any>;
+  localField: string;
+  foreignField: string;
+  // field the array of matching records of the other model is stored in
+  as: string;
+};
+
+export type PipelineStage =
+  | { $match: FilterQuery }
+  // 1 / true includes a field, 0 / false excludes it, an expression like '$address.city' computes it
+  | { $project: { [field: string]: 0 | 1 | boolean | string } }
+  | { $group: GroupStage }
+  | { $sort: SortType }
+  | { $skip: number }
+  | { $limit: number }
+  | { $unwind: string | UnwindOptions }
+  | { $lookup: LookupOptions };
+
+export type UpdateOptions = { upsert?: boolean };
+
+export type UpdateResult = { matchedCount: number; modifiedCount: number; upsertedId?: string };
+
+export type DeleteResult = { deletedCount: number };
+
+export type JournalOptions = {
+  // compacts the journal once it grows beyond this size in bytes
+  compactSize?: number;
+  // compacts the journal once it grows beyond this ratio of the snapshot size
+  compactRatio?: number;
+};
+
+export interface StorageAdapter {
+  // identifies the store, adapters with the same location read and write the same files
+  readonly location: string;
+  // prepares the store, e.g. creates the base directory
+  init(): Promise<void>;
+  // reads the contents of a file, rejects if the file does not exist
+  read(key: string): Promise<string>;
+  // atomically replaces the contents of a file
+  write(key: string, data: string): Promise<void>;
+  // atomically replaces the contents of several files together, the commit key must end with ".commit"
+  writeMany(files: Array<[string, string]>, commitKey: string): Promise<void>;
+  // finishes committed writeMany calls interrupted by a crash and discards the uncommitted ones of the given keys,
+  // resolves true if there was one
+  recover(keys: Array<string>): Promise<boolean>;
+  // durably appends data to a file, creating it if missing
+  append(key: string, data: string): Promise<void>;
+  // truncates a file to the given length in bytes
+  truncate(key: string, length: number): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  // size of a file in bytes, 0 if it does not exist
+  size(key: string): Promise<number>;
+  // removes a file, ignoring files that do not exist
+  remove(key: string): Promise<void>;
+  // keys of all files in the store, empty if the store does not exist yet
+  list(): Promise<Array<string>>;
+  // acquires an advisory lock that only one writer, in this or another process, can hold at a time. Waits while
+  // the lock is held and takes it over if its holder crashed
+  lock?(key: string): Promise<void>;
+  // releases a lock acquired with lock
+  unlock?(key: string): Promise<void>;
+}
+
+export type ModelOptions = {
+  // appends every change to a journal file instead of rewriting the whole collection on every save
+  journal?: boolean | JournalOptions;
+  // version of the schema, collections written with a lower version are migrated on initialize, defaults to 1
+  version?: number;
+  migrations?: Array<Migration>;
+  // opens the collection for reading only, writes fail with a ReadOnlyError and nothing is written on initialize
+  readOnly?: boolean;
+  // reloads the collection before a write if another process changed it, instead of failing with a ConflictError
+  autoReload?: boolean;
+  // encrypts the data, index and journal files with AES-256-GCM, the key is resolved on initialize
+  encryptionKey?: EncryptionKey;
+  // compresses the data and index files, the format of stored files is detected on load
+  compression?: CompressionFormat;
+  // milliseconds between two runs of the sweeper that removes expired records from the files, defaults to 60 seconds
+  ttlSweepInterval?: number;
+};
+
+export type CompressionFormat = 'gzip' | 'brotli';
+
+// a 32 byte key, a passphrase or a function that provides one of them, e.g. from a key store
+export type EncryptionKey = string | Buffer | (() => string | Buffer | Promise<string | Buffer>);
+
+export type Migration = {
+  from: number;
+  to: number;
+  // returns the record in the shape of the new version, the record can be changed in place
+  up: (record: any) => any;
+};
+
+export type InitializeOptions = {
+  // runs the pending migrations, defaults to true. Set to false to inspect them with migrate({ dryRun: true }) first
+  migrate?: boolean;
+};
+
+export type MigrateOptions = {
+  // reports what would change without changing the records
+  dryRun?: boolean;
+};
+
+export type MigrationReport = {
+  fromVersion: number;
+  toVersion: number;
+  migrations: Array<{ from: number; to: number }>;
+  changes: Array<{ id: string; before: any; after: any }>;
+  // validation failures of the migrated records, the paths start with the record id
+  errors: Array<SchemaValidationFailure>;
+  dryRun: boolean;
+};
+
+export type JournalEntry<T> =
+  | { op: 'put'; id: string; record: T }
+  | { op: 'delete'; id: string }
+  | { op: 'clear' }
+  | { op: 'batch'; entries: Array<JournalEntry<T>> };
+
+export type ModelMetadata = {
+  // schema version of the records
+  version: number;
+  indexes: Array<IndexDefinition>;
+  // changes with every snapshot, so that other processes can tell that the files were rewritten
+  snapshotId?: string;
+  // random salt, base64 encoded, that the passphrase of the encryption key is stretched with
+  salt?: string;
+};
+
+export type HookEvent = 'validate' | 'save' | 'update' | 'delete';
+
+// pre hooks may change the record or throw to abort the write, update hooks also get the record before the update
+export type HookFunction<T> = (record: T, previousRecord?: T) => void | Promise<void>;
+
+export type ModelHooks<T> = {
+  pre: { [event in HookEvent]: Array<HookFunction<T>> };
+  post: { [event in HookEvent]: Array<HookFunction<T>> };
+};
+
+export type ModelState<T> = {
+  dataCache: DataCacheType<T>;
+  indexCache: IndexCache;
+  isIndexDirty: boolean;
+  dirtyIds: Set<string>;
+  savedRecords: Map<string, T | undefined>;
+  isCleared: boolean;
+  // sequence number of the last change event, the later events are discarded on rollback
+  changeSequence: number;
+};
+
+export type ChangeOperation = 'insert' | 'update' | 'delete' | 'drop';
+
+export type ChangeEvent<T> = {
+  operationType: ChangeOperation;
+  // id of the changed record, missing for drop
+  id?: string;
+  // the record after the change, missing for delete and drop
+  document?: T;
+  // the record before the change, for update and delete
+  previousDocument?: T;
+  // the top level fields an update added or changed, and the ones it removed
+  updatedFields?: Partial<T>;
+  removedFields?: Array<string>;
+};
+
+export type CollectionStats = {
+  name: string;
+  records: number;
+  // size of the data, index and journal files in bytes
+  size: number;
+};
+
+export type DatabaseStats = {
+  location: string;
+  records: number;
+  size: number;
+  collections: Array<CollectionStats>;
+};
+
+export type CollectionSnapshot = {
+  name: string;
+  createdAt: string;
+  records: number;
+  // contents of the data, index and metadata files, compressed and encrypted like the files of the collection
+  files: { [key: string]: string };
+  // sha256 checksums of the files in hex
+  checksums: { [key: string]: string };
+};
+
+// ejson is MongoDB Extended JSON in relaxed mode with one document per line, as used by mongoexport and mongoimport
+export type DataFormat = 'ndjson' | 'csv' | 'ejson';
+
+export type ExportOptions = {
+  // defaults to ndjson
+  format?: DataFormat;
+  // only exports the matching records
+  filter?: FilterQuery;
+  // dotted paths of the CSV columns, defaults to the id, the fields of the schema and the timestamps
+  fields?: Array<string>;
+  // ends the stream once the records are written, defaults to true
+  end?: boolean;
+};
+
+export type ImportOptions = {
+  // defaults to ndjson
+  format?: DataFormat;
+  // upsert updates the records whose id exists and inserts the others, insert fails for them, defaults to insert
+  mode?: 'insert' | 'upsert';
+  // imports all rows in one transaction that is rolled back if any row fails
+  transaction?: boolean;
+};
+
+export type ImportReport = {
+  inserted: number;
+  updated: number;
+  // rows that failed, numbered from 1 without the CSV header
+  errors: Array<{ row: number; message: string }>;
+};
+
+export type ServerOptions = {
+  // rejects POST, PUT, PATCH and DELETE requests with 405
+  readOnly?: boolean;
+  // allows cross-origin requests, true allows every origin, a string only that origin
+  cors?: boolean | string;
+  // largest accepted request body in bytes, defaults to 1 MB
+  maxBodySize?: number;
+};
+
+export type BackupOptions = {
+  // removes the oldest backups of the target directory so that only this many are left
+  keep?: number;
+};
+
+export type BackupManifest = {
+  // name of the directory of the backup in the target directory
+  name: string;
+  createdAt: string;
+  collections: Array<{ name: string; records: number; checksums: { [key: string]: string } }>;
+};
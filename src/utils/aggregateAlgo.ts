@@ -0,0 +1,254 @@
+import { InvalidQueryError } from '../SkewerError';
+import { GroupStage, LookupOptions, PipelineStage, SortType, UnwindOptions } from '../types';
+import { compareSortValues, compareValues, matchesFilter, validateFilter } from './searchAlgo';
+import { deepClone, getValue, setValue, unsetValue } from './updateAlgo';
+
+const ACCUMULATORS = ['$sum', '$avg', '$min', '$max', '$push', '$count'];
+
+/**
+ * Checks if a value is a plain object whose fields are expressions
+ *
+ * @param  {any} value
+ * @returns boolean
+ */
+const isPlainObject = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Evaluates an expression for a record. Strings starting with $ are field paths, objects are evaluated field by
+ * field and everything else is a literal value.
+ *
+ * @param  {any} record
+ * @param  {any} expression e.g. '$address.city', { city: '$city' } or 1
+ * @returns any
+ */
+const evaluate = (record: any, expression: any): any => {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return getValue(record, expression.substring(1));
+  }
+  if (isPlainObject(expression)) {
+    return Object.fromEntries(Object.entries(expression).map(([key, x]) => [key, evaluate(record, x)]));
+  }
+
+  return expression;
+};
+
+/**
+ * Applies a $project stage, which either includes or excludes fields. Included fields may be computed from
+ * expressions, the id is included unless excluded.
+ *
+ * @param  {Array<any>} records
+ * @param  {object} projection
+ * @returns Array<any>
+ */
+const project = (records: Array<any>, projection: { [field: string]: 0 | 1 | boolean | string }): Array<any> => {
+  const entries = Object.entries(projection);
+  const isInclusion = entries.some(([key, value]) => key !== 'id' && value !== 0 && value !== false);
+
+  return records.map((record) => {
+    if (!isInclusion) {
+      const projected = deepClone(record);
+      entries.forEach(([key]) => unsetValue(projected, key));
+
+      return projected;
+    }
+
+    const projected: any = {};
+    if (projection.id === undefined && record.id !== undefined) projected.id = record.id;
+
+    entries.forEach(([key, value]) => {
+      const fieldValue = value === 1 || value === true ? getValue(record, key) : evaluate(record, value);
+      if (value !== 0 && value !== false && fieldValue !== undefined) setValue(projected, key, deepClone(fieldValue));
+    });
+
+    return projected;
+  });
+};
+
+/**
+ * Applies a $group stage, the groups are returned in the order their first record was found
+ *
+ * @param  {Array<any>} records
+ * @param  {GroupStage} group
+ * @returns Array<any>
+ * @throws InvalidQueryError if an accumulator is not supported
+ */
+const group = (records: Array<any>, { _id: idExpression, ...fields }: GroupStage): Array<any> => {
+  const accumulators = Object.entries(fields).map(([field, accumulator]) => {
+    const [operator, expression] = Object.entries(accumulator || {})[0] || [];
+
+    if (!ACCUMULATORS.includes(operator as string)) {
+      throw new InvalidQueryError(operator || field);
+    }
+
+    return { field, operator, expression };
+  });
+
+  const groups = new Map<string, { id: any; records: Array<any> }>();
+  records.forEach((record) => {
+    const id = evaluate(record, idExpression) ?? null;
+    const key = JSON.stringify(id);
+
+    if (!groups.has(key)) groups.set(key, { id, records: [] });
+    groups.get(key)?.records.push(record);
+  });
+
+  return [...groups.values()].map(({ id, records: groupRecords }) => {
+    const result: any = { _id: id };
+
+    accumulators.forEach(({ field, operator, expression }) => {
+      const values = groupRecords.map((record) => evaluate(record, expression));
+      const numbers = values.filter((x) => typeof x === 'number' && !Number.isNaN(x));
+      const present = values.filter((x) => x !== undefined && x !== null);
+
+      switch (operator) {
+        case '$sum':
+          result[field] = numbers.reduce((sum, x) => sum + x, 0);
+          break;
+        case '$avg':
+          result[field] = numbers.length ? numbers.reduce((sum, x) => sum + x, 0) / numbers.length : null;
+          break;
+        case '$min':
+          result[field] = present.reduce(
+            (min, x) => (min === null || (compareValues(x, min) ?? 0) < 0 ? x : min),
+            null
+          );
+          break;
+        case '$max':
+          result[field] = present.reduce(
+            (max, x) => (max === null || (compareValues(x, max) ?? 0) > 0 ? x : max),
+            null
+          );
+          break;
+        case '$push':
+          result[field] = values.filter((x) => x !== undefined);
+          break;
+        case '$count':
+          result[field] = groupRecords.length;
+          break;
+      }
+    });
+
+    return result;
+  });
+};
+
+/**
+ * Applies a $sort stage, records with equal values keep their order
+ *
+ * @param  {Array<any>} records
+ * @param  {SortType} sortSpec
+ * @returns Array<any>
+ */
+const sort = (records: Array<any>, sortSpec: SortType): Array<any> =>
+  [...records].sort((a, b) => {
+    for (const [path, direction] of Object.entries(sortSpec)) {
+      const result = compareSortValues(getValue(a, path), getValue(b, path));
+
+      if (result !== 0) return direction === -1 || direction === 'desc' ? -result : result;
+    }
+
+    return 0;
+  });
+
+/**
+ * Applies an $unwind stage, which outputs a copy of the record for every item of an array field
+ *
+ * @param  {Array<any>} records
+ * @param  {string | UnwindOptions} options
+ * @returns Array<any>
+ */
+const unwind = (records: Array<any>, options: string | UnwindOptions): Array<any> => {
+  const { path, preserveNullAndEmptyArrays = false } = typeof options === 'string' ? { path: options } : options;
+  const field = path.startsWith('$') ? path.substring(1) : path;
+
+  return records.flatMap((record) => {
+    const value = getValue(record, field);
+
+    if (!Array.isArray(value)) {
+      return value === undefined || value === null ? (preserveNullAndEmptyArrays ? [record] : []) : [record];
+    }
+    if (!value.length) {
+      return preserveNullAndEmptyArrays ? [record] : [];
+    }
+
+    return value.map((item) => {
+      const copy = deepClone(record);
+      setValue(copy, field, deepClone(item));
+
+      return copy;
+    });
+  });
+};
+
+/**
+ * Applies a $lookup stage, which adds the records of the other model whose foreign field equals the local field
+ *
+ * @param  {Array<any>} records
+ * @param  {LookupOptions} options
+ * @returns Promise<Array<any>>
+ */
+const lookup = async (
+  records: Array<any>,
+  { from, localField, foreignField, as }: LookupOptions
+): Promise<Array<any>> =>
+  Promise.all(
+    records.map(async (record) => {
+      const value = getValue(record, localField);
+      const values = Array.isArray(value) ? value : [value ?? null];
+      const copy = deepClone(record);
+
+      setValue(copy, as, await from.find({ [foreignField]: { $in: values } }));
+
+      return copy;
+    })
+  );
+
+/**
+ * Runs the stages of an aggregation pipeline over deep copies of the records, so the results are plain objects
+ * that do not share any values with the records.
+ *
+ * @param  {Array<any>} records
+ * @param  {Array<PipelineStage>} pipeline
+ * @returns Promise<Array<any>>
+ * @throws InvalidQueryError if a stage, accumulator or query operator is not supported
+ */
+export const aggregate = async (records: Array<any>, pipeline: Array<PipelineStage>): Promise<Array<any>> => {
+  let results = records.map((record) => deepClone(record));
+
+  for (const stage of pipeline) {
+    const [operator, value]: [string, any] = Object.entries(stage)[0] || ['{}', undefined];
+
+    switch (operator) {
+      case '$match':
+        validateFilter(value);
+        results = results.filter((record) => matchesFilter(record, value));
+        break;
+      case '$project':
+        results = project(results, value);
+        break;
+      case '$group':
+        results = group(results, value);
+        break;
+      case '$sort':
+        results = sort(results, value);
+        break;
+      case '$skip':
+        results = results.slice(value);
+        break;
+      case '$limit':
+        results = results.slice(0, value);
+        break;
+      case '$unwind':
+        results = unwind(results, value);
+        break;
+      case '$lookup':
+        results = await lookup(results, value);
+        break;
+      default:
+        throw new InvalidQueryError(operator);
+    }
+  }
+
+  return results;
+};
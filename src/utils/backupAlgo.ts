@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+
+import { BackupManifest, CollectionSnapshot } from '../types';
+import { SnapshotError } from '../SkewerError';
+import { FileStorageAdapter } from '../Storage';
+
+const manifestKey = 'manifest.json';
+
+/**
+ * Returns the sha256 checksum of the contents of a file in hex
+ *
+ * @param  {string} data
+ * @returns string
+ */
+export const checksum = (data: string): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Checks that a snapshot has all files of its checksums and that none of them was changed
+ *
+ * @param  {CollectionSnapshot} snapshot
+ * @returns void
+ * @throws SnapshotError
+ */
+export const verifySnapshot = (snapshot: CollectionSnapshot): void => {
+  for (const [key, fileChecksum] of Object.entries(snapshot.checksums || {})) {
+    if (typeof snapshot.files?.[key] !== 'string') {
+      throw new SnapshotError(`the file ${key} of ${snapshot.name} is missing`);
+    }
+    if (checksum(snapshot.files[key]) !== fileChecksum) {
+      throw new SnapshotError(`the checksum of the file ${key} of ${snapshot.name} does not match`);
+    }
+  }
+
+  if (!snapshot.files?.[`${snapshot.name}.json`] || !snapshot.checksums?.[`${snapshot.name}.json`]) {
+    throw new SnapshotError(`the data file of ${snapshot.name} is missing`);
+  }
+};
+
+/**
+ * Reads and parses the manifest of a backup
+ *
+ * @param  {string} backupDir directory of the backup
+ * @returns Promise<BackupManifest>
+ * @throws SnapshotError if the manifest is no valid JSON or has no collections
+ */
+const readManifest = async (backupDir: string): Promise<BackupManifest> => {
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(await new FileStorageAdapter(backupDir).read(manifestKey));
+  } catch (error) {
+    throw new SnapshotError(`the manifest of ${backupDir} is corrupt`);
+  }
+
+  if (!Array.isArray(manifest?.collections)) {
+    throw new SnapshotError(`the manifest of ${backupDir} is corrupt`);
+  }
+
+  return manifest;
+};
+
+/**
+ * Lists the backups of a target directory, oldest first. Directories without a manifest, e.g. of a backup that
+ * was interrupted, are left out.
+ *
+ * @param  {string} targetDir
+ * @returns Promise<Array<BackupManifest>>
+ */
+export const listBackups = async (targetDir: string): Promise<Array<BackupManifest>> => {
+  const manifests: Array<BackupManifest> = [];
+  const storage = new FileStorageAdapter(targetDir);
+
+  for (const name of (await storage.list()).sort()) {
+    if (await storage.exists(join(name, manifestKey))) {
+      manifests.push(await readManifest(join(targetDir, name)));
+    }
+  }
+
+  return manifests.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.name.localeCompare(b.name));
+};
+
+/**
+ * Writes the snapshots of the collections to a new directory of the target directory. The manifest with the
+ * checksums is written last, so a backup without a manifest is incomplete.
+ *
+ * @param  {string} targetDir
+ * @param  {Array<CollectionSnapshot>} snapshots
+ * @returns Promise<BackupManifest>
+ */
+export const writeBackup = async (targetDir: string, snapshots: Array<CollectionSnapshot>): Promise<BackupManifest> => {
+  await fs.promises.mkdir(targetDir, { recursive: true });
+
+  const createdAt = new Date().toISOString();
+  const baseName = `backup-${createdAt.replace(/[:.]/g, '-')}`;
+  let name = baseName;
+  for (let i = 1; fs.existsSync(join(targetDir, name)); i++) {
+    name = `${baseName}-${i}`;
+  }
+
+  const storage = new FileStorageAdapter(join(targetDir, name));
+  await storage.init();
+
+  for (const snapshot of snapshots) {
+    for (const [key, data] of Object.entries(snapshot.files)) {
+      await storage.write(key, data);
+    }
+  }
+
+  const manifest: BackupManifest = {
+    name,
+    createdAt,
+    collections: snapshots.map(({ name, records, checksums }) => ({ name, records, checksums })),
+  };
+  await storage.write(manifestKey, JSON.stringify(manifest, null, 2));
+
+  return manifest;
+};
+
+/**
+ * Reads the snapshots of the collections of a backup and verifies them against the checksums of the manifest
+ *
+ * @param  {string} backupDir directory of the backup
+ * @returns Promise<Array<CollectionSnapshot>>
+ * @throws SnapshotError if the manifest or a file is missing, the manifest is corrupt or a file was changed
+ */
+export const readBackup = async (backupDir: string): Promise<Array<CollectionSnapshot>> => {
+  const storage = new FileStorageAdapter(backupDir);
+
+  if (!(await storage.exists(manifestKey))) {
+    throw new SnapshotError(`${backupDir} has no manifest`);
+  }
+
+  const manifest = await readManifest(backupDir);
+  const snapshots: Array<CollectionSnapshot> = [];
+
+  for (const { name, records, checksums } of manifest.collections) {
+    const files: { [key: string]: string } = {};
+    for (const key of Object.keys(checksums)) {
+      if (await storage.exists(key)) {
+        files[key] = await storage.read(key);
+      }
+    }
+
+    const snapshot = { name, createdAt: manifest.createdAt, records, files, checksums };
+    verifySnapshot(snapshot);
+    snapshots.push(snapshot);
+  }
+
+  return snapshots;
+};
+
+/**
+ * Removes the oldest backups of a target directory so that only the given number is left
+ *
+ * @param  {string} targetDir
+ * @param  {number} keep
+ * @returns Promise
+ */
+export const pruneBackups = async (targetDir: string, keep: number): Promise<void> => {
+  const backups = await listBackups(targetDir);
+
+  for (const { name } of backups.slice(0, Math.max(backups.length - keep, 0))) {
+    await fs.promises.rm(join(targetDir, name), { recursive: true, force: true });
+  }
+};
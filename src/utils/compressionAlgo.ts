@@ -0,0 +1,54 @@
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from 'zlib';
+
+import { CompressionFormat } from '../types';
+import { FileLoadError } from '../SkewerError';
+import { CONSTANTS } from '../Constants';
+
+/**
+ * Returns the format a file was compressed with by compress, if any
+ *
+ * @param  {string} data
+ * @returns CompressionFormat | undefined
+ */
+export const compressionOf = (data: string): CompressionFormat | undefined =>
+  (Object.keys(CONSTANTS.compressedFilePrefixes) as Array<CompressionFormat>).find((format) =>
+    data.startsWith(CONSTANTS.compressedFilePrefixes[format])
+  );
+
+/**
+ * Compresses the contents of a file. The result is the prefix of the format followed by the base64 encoded
+ * compressed data, so that it can be told apart from plain JSON on load.
+ *
+ * @param  {string} data
+ * @param  {CompressionFormat} format
+ * @returns string
+ */
+export const compress = (data: string, format: CompressionFormat): string => {
+  const compressed = format === 'gzip' ? gzipSync(data) : brotliCompressSync(data);
+
+  return `${CONSTANTS.compressedFilePrefixes[format]}${compressed.toString('base64')}`;
+};
+
+/**
+ * Decompresses the contents of a file compressed with compress, plain files are returned as they are
+ *
+ * @param  {string} data
+ * @param  {string} fileKey key of the file for the error message
+ * @returns string
+ * @throws FileLoadError if the compressed data is corrupt
+ */
+export const decompress = (data: string, fileKey: string): string => {
+  const format = compressionOf(data);
+
+  if (!format) {
+    return data;
+  }
+
+  try {
+    const compressed = Buffer.from(data.substring(CONSTANTS.compressedFilePrefixes[format].length), 'base64');
+
+    return (format === 'gzip' ? gunzipSync(compressed) : brotliDecompressSync(compressed)).toString('utf-8');
+  } catch (error) {
+    throw new FileLoadError(fileKey);
+  }
+};
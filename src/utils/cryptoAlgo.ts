@@ -0,0 +1,102 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promisify } from 'util';
+
+import { EncryptionKey } from '../types';
+import { EncryptionError } from '../SkewerError';
+import { CONSTANTS } from '../Constants';
+
+const algorithm = 'aes-256-gcm';
+const keyLength = 32;
+const ivLength = 12;
+const tagLength = 16;
+const saltLength = 16;
+
+/**
+ * Creates a random salt for resolveEncryptionKey
+ *
+ * @returns {string} the base64 encoded salt
+ */
+export const createSalt = (): string => randomBytes(saltLength).toString('base64');
+
+/**
+ * Resolves the encryption key option to the key of the cipher. Passphrases are stretched with scrypt and the salt,
+ * keys given as a Buffer are used as they are.
+ *
+ * @param  {EncryptionKey} encryptionKey the key, a passphrase or a function that provides one of them
+ * @param  {string} salt base64 encoded salt of the store, see createSalt
+ * @returns {Promise<Buffer | undefined>} undefined without an encryption key
+ * @throws EncryptionError if a Buffer key is not 32 bytes long
+ */
+export const resolveEncryptionKey = async (
+  encryptionKey: EncryptionKey | undefined,
+  salt: string
+): Promise<Buffer | undefined> => {
+  const key = typeof encryptionKey === 'function' ? await encryptionKey() : encryptionKey;
+
+  if (key === undefined) {
+    return undefined;
+  }
+  if (typeof key === 'string') {
+    return (await promisify(scrypt)(key, Buffer.from(salt, 'base64'), keyLength)) as Buffer;
+  }
+  if (key.length !== keyLength) {
+    throw new EncryptionError(`the key has to be ${keyLength} bytes long`);
+  }
+
+  return key;
+};
+
+/**
+ * Checks if the contents of a file were encrypted with encrypt
+ *
+ * @param  {string} data
+ * @returns boolean
+ */
+export const isEncrypted = (data: string): boolean => data.startsWith(CONSTANTS.encryptedFilePrefix);
+
+/**
+ * Encrypts the contents of a file with AES-256-GCM and a random IV. The result is the prefix followed by the
+ * base64 encoded IV, authentication tag and cipher text, so it stays on one line. The key of the file is
+ * authenticated as well, so that the contents of one file can not be passed off as another file.
+ *
+ * @param  {string} data
+ * @param  {Buffer} key
+ * @param  {string} fileKey key of the file the data is written to
+ * @returns string
+ */
+export const encrypt = (data: string, key: Buffer, fileKey: string): string => {
+  const iv = randomBytes(ivLength);
+  const cipher = createCipheriv(algorithm, key, iv);
+  cipher.setAAD(Buffer.from(fileKey, 'utf-8'));
+  const cipherText = Buffer.concat([cipher.update(data, 'utf-8'), cipher.final()]);
+
+  return `${CONSTANTS.encryptedFilePrefix}${Buffer.concat([iv, cipher.getAuthTag(), cipherText]).toString('base64')}`;
+};
+
+/**
+ * Decrypts the contents of a file encrypted with encrypt and checks that they were not changed and were written
+ * to this file
+ *
+ * @param  {string} data
+ * @param  {Buffer} key
+ * @param  {string} fileKey key of the file the data was read from
+ * @returns string
+ * @throws EncryptionError if the key is wrong or the file was tampered with
+ */
+export const decrypt = (data: string, key: Buffer, fileKey: string): string => {
+  const encrypted = Buffer.from(data.substring(CONSTANTS.encryptedFilePrefix.length), 'base64');
+
+  try {
+    const decipher = createDecipheriv(algorithm, key, encrypted.subarray(0, ivLength));
+    decipher.setAuthTag(encrypted.subarray(ivLength, ivLength + tagLength));
+    decipher.setAAD(Buffer.from(fileKey, 'utf-8'));
+
+    return Buffer.concat([decipher.update(encrypted.subarray(ivLength + tagLength)), decipher.final()]).toString(
+      'utf-8'
+    );
+  } catch (error) {
+    throw new EncryptionError(
+      `the file ${fileKey} can not be decrypted, the key is wrong or the file was tampered with`
+    );
+  }
+};
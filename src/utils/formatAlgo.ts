@@ -0,0 +1,309 @@
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+import { SchemaField, SchemaType } from '../types';
+import { getSchemaField, isArrayField, toSchemaField } from './schemaAlgo';
+import { getValue, setValue } from './updateAlgo';
+
+/**
+ * Checks if a value is a plain object, i.e. a nested record and not a Date or an array
+ *
+ * @param  {any} value
+ * @returns boolean
+ */
+const isPlainObject = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Converts a value to MongoDB Extended JSON in relaxed mode, as written by mongoexport. Dates become { $date }.
+ *
+ * @param  {any} value
+ * @returns any
+ */
+const toExtendedValue = (value: any): any => {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toExtendedValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, x]) => [key, toExtendedValue(x)]));
+  }
+
+  return value;
+};
+
+/**
+ * Converts a value from MongoDB Extended JSON, in relaxed or canonical mode. Dates become Date objects, typed
+ * numbers become numbers and ObjectIds their hex string.
+ *
+ * @param  {any} value
+ * @returns any
+ */
+export const fromExtendedValue = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(fromExtendedValue);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 1) {
+    const [key] = keys;
+
+    if (key === '$oid') return value.$oid;
+    if (key === '$date') {
+      const date = value.$date;
+      return new Date(typeof date === 'object' ? Number(date.$numberLong) : date);
+    }
+    if (['$numberInt', '$numberLong', '$numberDouble', '$numberDecimal'].includes(key)) return Number(value[key]);
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, x]) => [key, fromExtendedValue(x)]));
+};
+
+/**
+ * Serializes a record as a line of MongoDB Extended JSON, the id becomes the _id of the document
+ *
+ * @param  {any} record
+ * @returns string
+ */
+export const toExtendedJson = (record: any): string => {
+  const { id, ...fields } = record;
+
+  return JSON.stringify({ _id: id, ...toExtendedValue(fields) });
+};
+
+/**
+ * Parses a document of MongoDB Extended JSON, e.g. a line written by mongoexport, into a record
+ *
+ * @param  {string} line
+ * @returns any
+ */
+export const fromExtendedJson = (line: string): any => {
+  const { _id, ...fields } = fromExtendedValue(JSON.parse(line));
+
+  return _id === undefined ? fields : { id: String(_id), ...fields };
+};
+
+/**
+ * Returns the dotted paths of the fields of a schema as columns of a CSV file. Nested schemas are flattened,
+ * arrays are one column.
+ *
+ * @param  {SchemaType} schema
+ * @param  {string} prefix path prefix of nested schemas
+ * @returns Array<string>
+ */
+export const csvFields = (schema: SchemaType, prefix = ''): Array<string> =>
+  Object.keys(schema).flatMap((key) => {
+    const field = toSchemaField(schema[key]);
+
+    return !isArrayField(field) && isPlainObject(field.type)
+      ? csvFields(field.type as SchemaType, `${prefix}${key}.`)
+      : [`${prefix}${key}`];
+  });
+
+/**
+ * Returns the field definition of a dotted path of the schema, if any
+ *
+ * @param  {SchemaType} schema
+ * @param  {string} path
+ * @returns SchemaField | undefined
+ */
+const schemaFieldAt = (schema: SchemaType, path: string): SchemaField | undefined => {
+  const [key, ...rest] = path.split('.');
+  const field = getSchemaField(schema, key);
+
+  if (!rest.length || !field) {
+    return field;
+  }
+
+  return isPlainObject(field.type) ? schemaFieldAt(field.type as SchemaType, rest.join('.')) : undefined;
+};
+
+/**
+ * Serializes a row of CSV values, values with commas, quotes or line breaks are quoted
+ *
+ * @param  {Array<any>} values
+ * @returns string
+ */
+export const toCsvRow = (values: Array<any>): string =>
+  values
+    .map((value) => {
+      let text: string;
+      if (value === undefined || value === null) text = '';
+      else if (value instanceof Date) text = value.toISOString();
+      else if (typeof value === 'object') text = JSON.stringify(value);
+      else text = String(value);
+
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+
+/**
+ * Returns the values of the columns of a record as a CSV row
+ *
+ * @param  {any} record
+ * @param  {Array<string>} fields dotted paths of the columns
+ * @returns string
+ */
+export const recordToCsv = (record: any, fields: Array<string>): string =>
+  toCsvRow(fields.map((path) => getValue(record, path)));
+
+/**
+ * Converts a CSV value to the type of its field, empty values are left out. Values of fields that are not in the
+ * schema stay strings.
+ *
+ * @param  {string} value
+ * @param  {SchemaField} field
+ * @returns any
+ */
+const coerceCsvValue = (value: string, field?: SchemaField): any => {
+  if (value === '') {
+    return undefined;
+  }
+  if (!field) {
+    return value;
+  }
+  if (isArrayField(field) || isPlainObject(field.type) || field.type === Object) {
+    return JSON.parse(value);
+  }
+
+  switch (field.type) {
+    case Number:
+      return Number(value);
+    case Boolean:
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case Date:
+      return new Date(value);
+    default:
+      return value;
+  }
+};
+
+/**
+ * Converts a text value, e.g. of a query string, to the type of the field at the dotted path of the schema
+ *
+ * @param  {string} value
+ * @param  {SchemaType} schema
+ * @param  {string} path
+ * @returns any undefined for empty values
+ */
+export const fromTextValue = (value: string, schema: SchemaType, path: string): any =>
+  coerceCsvValue(value, schemaFieldAt(schema, path));
+
+/**
+ * Builds a record from a CSV row, converting the values to the types of the schema. An _id column, as written
+ * by mongoexport, becomes the id.
+ *
+ * @param  {Array<string>} header dotted paths of the columns
+ * @param  {Array<string>} row
+ * @param  {SchemaType} schema
+ * @returns any
+ */
+export const recordFromCsv = (header: Array<string>, row: Array<string>, schema: SchemaType): any => {
+  const record: any = {};
+
+  header.forEach((path, i) => {
+    const value = coerceCsvValue(row[i] ?? '', schemaFieldAt(schema, path));
+
+    if (value !== undefined) {
+      setValue(record, path === '_id' ? 'id' : path, value);
+    }
+  });
+
+  return record;
+};
+
+/**
+ * Reads the chunks of a stream as text, multi byte characters split between two chunks are kept together
+ *
+ * @param  {Readable} stream
+ * @returns AsyncGenerator<string>
+ */
+async function* readText(stream: Readable): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf-8');
+
+  for await (const chunk of stream) {
+    yield typeof chunk === 'string' ? chunk : decoder.write(chunk);
+  }
+
+  yield decoder.end();
+}
+
+/**
+ * Reads the non empty lines of a stream
+ *
+ * @param  {Readable} stream
+ * @returns AsyncGenerator<string>
+ */
+export async function* readLines(stream: Readable): AsyncGenerator<string> {
+  for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+    if (line.trim()) {
+      yield line;
+    }
+  }
+}
+
+/**
+ * Parses the rows of a CSV stream. Quoted values can hold commas, escaped quotes ("") and line breaks.
+ * Empty lines are skipped.
+ *
+ * @param  {Readable} stream
+ * @returns AsyncGenerator<Array<string>>
+ */
+export async function* readCsvRows(stream: Readable): AsyncGenerator<Array<string>> {
+  let row: Array<string> = [];
+  let value = '';
+  let isQuoted = false;
+  // the last character of the previous chunk was a quote inside of a quoted value
+  let isQuotePending = false;
+
+  const endRow = (): Array<string> | undefined => {
+    row.push(value);
+    const completeRow = row;
+    row = [];
+    value = '';
+
+    return completeRow.length === 1 && completeRow[0] === '' ? undefined : completeRow;
+  };
+
+  for await (const text of readText(stream)) {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (isQuotePending) {
+        isQuotePending = false;
+        if (char === '"') {
+          value += '"';
+          continue;
+        }
+        isQuoted = false;
+      }
+
+      if (isQuoted) {
+        if (char !== '"') value += char;
+        else if (i + 1 === text.length) isQuotePending = true;
+        else if (text[i + 1] === '"') value += text[++i];
+        else isQuoted = false;
+      } else if (char === '"') {
+        isQuoted = true;
+      } else if (char === ',') {
+        row.push(value);
+        value = '';
+      } else if (char === '\n') {
+        const completeRow = endRow();
+        if (completeRow) yield completeRow;
+      } else if (char !== '\r') {
+        value += char;
+      }
+    }
+  }
+
+  if (value || row.length) {
+    yield endRow() as Array<string>;
+  }
+}
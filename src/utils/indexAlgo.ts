@@ -0,0 +1,421 @@
+import {
+  FilterQuery,
+  HashIndexEntries,
+  IndexCache,
+  IndexDefinition,
+  QueryOperators,
+  SchemaType,
+  SortedIndexEntries,
+  TextIndexEntries,
+} from '../types';
+import { compareSortValues, isOperatorObject } from './searchAlgo';
+import { getSchemaField, isArrayField } from './schemaAlgo';
+import { addToTextIndex, removeFromTextIndex } from './textAlgo';
+import { getValue } from './updateAlgo';
+
+/**
+ * Returns the default name of an index, the field itself for single field indexes and the fields joined with "_"
+ * for compound indexes
+ *
+ * @param  {Array<string>} fields
+ * @returns string
+ */
+export const indexName = (fields: Array<string>): string => fields.join('_');
+
+/**
+ * Checks if two index definitions hold the same keys
+ *
+ * @param  {IndexDefinition} a
+ * @param  {IndexDefinition} b
+ * @returns boolean
+ */
+export const isSameIndex = (a: IndexDefinition, b: IndexDefinition): boolean =>
+  a.name === b.name &&
+  a.fields.join(',') === b.fields.join(',') &&
+  !!a.sparse === !!b.sparse &&
+  !!a.sorted === !!b.sorted &&
+  !!a.text === !!b.text;
+
+/**
+ * Collects the indexes defined by the unique, index and text flags of the schema, including nested schemas.
+ * They are sparse, records without a value for the field are not indexed, except for sorted indexes that are not
+ * unique since they have to hold every record to serve sorting. Text indexes are named after the field with "_text".
+ *
+ * @param  {SchemaType} schema
+ * @param  {string} prefix path prefix of nested schemas
+ * @returns Array<IndexDefinition>
+ */
+export const schemaIndexes = (schema: SchemaType, prefix = ''): Array<IndexDefinition> =>
+  Object.keys(schema).flatMap((key) => {
+    const field = getSchemaField(schema, key);
+    const path = `${prefix}${key}`;
+
+    if (!field) {
+      return [];
+    }
+
+    const textIndexes: Array<IndexDefinition> = field.text
+      ? [{ name: `${path}_text`, fields: [path], unique: false, sparse: true, text: true, schema: true }]
+      : [];
+
+    if (field.index === 'sorted') {
+      return [
+        { name: path, fields: [path], unique: !!field.unique, sparse: !!field.unique, sorted: true, schema: true },
+        ...textIndexes,
+      ];
+    }
+    if (field.unique || field.index) {
+      return [{ name: path, fields: [path], unique: !!field.unique, sparse: true, schema: true }, ...textIndexes];
+    }
+    if (field.text) {
+      return textIndexes;
+    }
+    if (!isArrayField(field) && field.type && typeof field.type === 'object') {
+      return schemaIndexes(field.type as SchemaType, `${path}.`);
+    }
+
+    return [];
+  });
+
+/**
+ * Converts a value to the form it is indexed with
+ *
+ * @param  {any} value
+ * @returns any
+ */
+const normalizeValue = (value: any): any => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+
+  return value;
+};
+
+/**
+ * Converts the values of the fields of an index to an index key
+ *
+ * @param  {Array<any>} values
+ * @returns string
+ */
+const toKey = (values: Array<any>): string => {
+  if (values.length > 1) {
+    return JSON.stringify(values.map(normalizeValue));
+  }
+
+  const value = normalizeValue(values[0]);
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Returns every combination of one value per field
+ *
+ * @param  {Array<Array<any>>} valuesPerField
+ * @returns Array<Array<any>>
+ */
+const combinations = (valuesPerField: Array<Array<any>>): Array<Array<any>> =>
+  valuesPerField.reduce<Array<Array<any>>>(
+    (result, values) => result.flatMap((combination) => values.map((value) => [...combination, value])),
+    [[]]
+  );
+
+/**
+ * Returns the keys a record is indexed under. Array values are indexed by their items, so that a filter on a single
+ * item can use the index. Sparse indexes skip records that have none of the fields.
+ *
+ * @param  {any} record
+ * @param  {IndexDefinition} index
+ * @returns Array<string>
+ */
+export const indexKeys = (record: any, index: IndexDefinition): Array<string> => {
+  const values = index.fields.map((field) => getValue(record, field));
+
+  if (index.sparse && values.every((x) => x === undefined || x === null)) {
+    return [];
+  }
+
+  const keys = combinations(values.map((x) => (Array.isArray(x) ? x : [x]))).map(toKey);
+  return [...new Set(keys)];
+};
+
+/**
+ * Returns the values a record is stored with in a sorted index, one per item for array values
+ *
+ * @param  {any} record
+ * @param  {IndexDefinition} index
+ * @returns Array<any>
+ */
+const sortedValues = (record: any, index: IndexDefinition): Array<any> => {
+  const value = getValue(record, index.fields[0]);
+
+  if (index.sparse && (value === undefined || value === null)) {
+    return [];
+  }
+
+  return [...new Set((Array.isArray(value) ? value : [value]).map(normalizeValue))];
+};
+
+/**
+ * Returns the position of the first entry whose value is not lower than the value
+ *
+ * @param  {SortedIndexEntries} entries
+ * @param  {any} value
+ * @returns number
+ */
+const lowerBound = (entries: SortedIndexEntries, value: any): number => {
+  let low = 0,
+    high = entries.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (compareSortValues(entries[middle][0], value) < 0) low = middle + 1;
+    else high = middle;
+  }
+
+  return low;
+};
+
+/**
+ * Returns the position of the first entry whose value is greater than the value
+ *
+ * @param  {SortedIndexEntries} entries
+ * @param  {any} value
+ * @returns number
+ */
+const upperBound = (entries: SortedIndexEntries, value: any): number => {
+  let low = 0,
+    high = entries.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (compareSortValues(entries[middle][0], value) <= 0) low = middle + 1;
+    else high = middle;
+  }
+
+  return low;
+};
+
+/**
+ * Returns the ids stored under a key of a hash index, keys like "constructor" do not resolve to the prototype
+ *
+ * @param  {HashIndexEntries} entries
+ * @param  {string} key
+ * @returns Array<string>
+ */
+export const hashEntryIds = (entries: HashIndexEntries, key: string): Array<string> =>
+  Object.prototype.hasOwnProperty.call(entries, key) ? entries[key] : [];
+
+/**
+ * Adds a record to an index
+ *
+ * @param  {IndexCache} indexCache
+ * @param  {IndexDefinition} index
+ * @param  {any} record
+ * @param  {string} id
+ * @returns void
+ */
+export const addToIndex = (indexCache: IndexCache, index: IndexDefinition, record: any, id: string): void => {
+  if (index.text) {
+    const textEntries = (indexCache[index.name] = indexCache[index.name] || { terms: {}, lengths: {} });
+    addToTextIndex(textEntries as TextIndexEntries, getValue(record, index.fields[0]), id);
+    return;
+  }
+  if (index.sorted) {
+    const sortedEntries = (indexCache[index.name] = indexCache[index.name] || []) as SortedIndexEntries;
+    sortedValues(record, index).forEach((value) =>
+      sortedEntries.splice(upperBound(sortedEntries, value), 0, [value, id])
+    );
+    return;
+  }
+
+  const entries = (indexCache[index.name] = indexCache[index.name] || {}) as HashIndexEntries;
+
+  indexKeys(record, index).forEach((key) => {
+    // defined as own property, a key like "__proto__" must not replace the prototype
+    if (!Object.prototype.hasOwnProperty.call(entries, key)) {
+      Object.defineProperty(entries, key, { value: [], enumerable: true, writable: true, configurable: true });
+    }
+
+    if (!entries[key].includes(id)) {
+      entries[key].push(id);
+    }
+  });
+};
+
+/**
+ * Removes a record from an index, keys without ids are removed as well
+ *
+ * @param  {IndexCache} indexCache
+ * @param  {IndexDefinition} index
+ * @param  {any} record
+ * @param  {string} id
+ * @returns void
+ */
+export const removeFromIndex = (indexCache: IndexCache, index: IndexDefinition, record: any, id: string): void => {
+  if (!indexCache[index.name]) {
+    return;
+  }
+
+  if (index.text) {
+    removeFromTextIndex(indexCache[index.name] as TextIndexEntries, getValue(record, index.fields[0]), id);
+    return;
+  }
+  if (index.sorted) {
+    const sortedEntries = indexCache[index.name] as SortedIndexEntries;
+
+    sortedValues(record, index).forEach((value) => {
+      for (let i = lowerBound(sortedEntries, value); i < upperBound(sortedEntries, value); i++) {
+        if (sortedEntries[i][1] === id) {
+          sortedEntries.splice(i, 1);
+          return;
+        }
+      }
+    });
+    return;
+  }
+
+  const entries = indexCache[index.name] as HashIndexEntries;
+
+  indexKeys(record, index).forEach((key) => {
+    if (!Object.prototype.hasOwnProperty.call(entries, key)) {
+      return;
+    }
+
+    entries[key] = entries[key].filter((x) => x !== id);
+    if (!entries[key].length) {
+      delete entries[key];
+    }
+  });
+};
+
+/**
+ * Builds an index from scratch
+ *
+ * @param  {IndexDefinition} index
+ * @param  {Array<any>} records
+ * @returns IndexCache[string]
+ */
+export const buildIndex = (index: IndexDefinition, records: Array<any>): IndexCache[string] => {
+  if (index.sorted) {
+    const entries: SortedIndexEntries = records.flatMap((record) =>
+      sortedValues(record, index).map((value): [any, string] => [value, record.id])
+    );
+
+    // the sort is stable, so records with the same value stay in the order of the records
+    return entries.sort((a, b) => compareSortValues(a[0], b[0]));
+  }
+
+  const indexCache: IndexCache = { [index.name]: index.text ? { terms: {}, lengths: {} } : {} };
+  records.forEach((record) => addToIndex(indexCache, index, record, record.id));
+
+  return indexCache[index.name];
+};
+
+/**
+ * Returns the values a filter value selects by equality, or undefined if the index can not serve it
+ *
+ * @param  {any} value
+ * @param  {IndexDefinition} index
+ * @returns Array<any> | undefined
+ */
+const lookupValues = (value: any, index: IndexDefinition): Array<any> | undefined => {
+  let values: Array<any> | undefined;
+
+  if (!isOperatorObject(value)) {
+    values = [value];
+  } else if (Object.prototype.hasOwnProperty.call(value, '$eq')) {
+    values = [value.$eq];
+  } else if (Array.isArray(value.$in)) {
+    values = value.$in;
+  }
+
+  // whole array and regex matches can not be served, and sparse indexes do not hold the records without a value
+  if (
+    !values ||
+    values.some((x) => x instanceof RegExp || Array.isArray(x) || (index.sparse && (x === undefined || x === null)))
+  ) {
+    return undefined;
+  }
+
+  return values;
+};
+
+/**
+ * Returns the keys of an index that hold the records matching the equality conditions of the filter, or undefined
+ * if the filter has no usable condition for one of the fields of the index
+ *
+ * @param  {FilterQuery} filter
+ * @param  {IndexDefinition} index
+ * @returns Array<string> | undefined
+ */
+export const lookupKeys = (filter: FilterQuery, index: IndexDefinition): Array<string> | undefined => {
+  const valuesPerField: Array<Array<any>> = [];
+
+  for (const field of index.fields) {
+    const values = Object.prototype.hasOwnProperty.call(filter, field) ? lookupValues(filter[field], index) : undefined;
+
+    if (!values) {
+      return undefined;
+    }
+
+    valuesPerField.push(values);
+  }
+
+  return [...new Set(combinations(valuesPerField).map(toKey))];
+};
+
+/**
+ * Returns the ids of an index grouped by index key, for hash, sorted and text indexes
+ *
+ * @param  {IndexDefinition} index
+ * @param  {IndexCache[string]} entries
+ * @returns HashIndexEntries
+ */
+export const entriesByKey = (index: IndexDefinition, entries: IndexCache[string] = {}): HashIndexEntries => {
+  if (index.text) {
+    const { terms = {} } = entries as TextIndexEntries;
+    return Object.fromEntries(Object.entries(terms).map(([term, frequencies]) => [term, Object.keys(frequencies)]));
+  }
+  if (!index.sorted) {
+    return entries as HashIndexEntries;
+  }
+
+  const grouped = new Map<string, Array<string>>();
+  (entries as SortedIndexEntries).forEach(([value, id]) => {
+    const key = toKey([value]);
+    grouped.set(key, [...(grouped.get(key) || []), id]);
+  });
+
+  return Object.fromEntries(grouped);
+};
+
+/**
+ * Returns the range of entries of a sorted index that can match a filter value, or undefined if the value has no
+ * equality or range condition. Range conditions never match missing values, which are sorted first.
+ *
+ * @param  {any} value the filter value for the indexed field
+ * @param  {SortedIndexEntries} entries
+ * @returns [number, number] | undefined start and end position, the end is excluded
+ */
+export const lookupRange = (value: any, entries: SortedIndexEntries): [number, number] | undefined => {
+  const isUsable = (x: any) =>
+    x !== undefined && x !== null && !(x instanceof RegExp) && (typeof x !== 'object' || x instanceof Date);
+  const conditions: QueryOperators = isOperatorObject(value) ? value : { $eq: value };
+
+  let start: number | undefined, end: number | undefined;
+
+  // date bounds are kept as dates, which compare by time with the ISO strings of the entries
+  if (isUsable(conditions.$eq)) {
+    start = lowerBound(entries, conditions.$eq);
+    end = upperBound(entries, conditions.$eq);
+  }
+  // every bound is a necessary condition, so any of them narrows the range to a superset of the matches
+  if (start === undefined && isUsable(conditions.$gte)) start = lowerBound(entries, conditions.$gte);
+  if (start === undefined && isUsable(conditions.$gt)) start = upperBound(entries, conditions.$gt);
+  if (end === undefined && isUsable(conditions.$lte)) end = upperBound(entries, conditions.$lte);
+  if (end === undefined && isUsable(conditions.$lt)) end = lowerBound(entries, conditions.$lt);
+
+  if (start === undefined && end === undefined) {
+    return undefined;
+  }
+
+  return [start ?? upperBound(entries, null), end ?? entries.length];
+};
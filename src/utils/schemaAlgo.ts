@@ -0,0 +1,294 @@
+import {
+  SchemaDefinition,
+  SchemaField,
+  SchemaReference,
+  SchemaTtlField,
+  SchemaType,
+  SchemaValidationFailure,
+} from '../types';
+import { compareValues, isEqual } from './searchAlgo';
+
+/**
+ * Checks if a schema definition is a field definition like { type: String } rather than a nested schema or an array
+ *
+ * @param  {SchemaDefinition} definition
+ * @returns boolean
+ */
+const isSchemaField = (definition: SchemaDefinition): definition is SchemaField =>
+  !Array.isArray(definition) && Object.prototype.hasOwnProperty.call(definition, 'type');
+
+/**
+ * Checks if a value is a plain object that can hold the fields of a nested schema
+ *
+ * @param  {any} value
+ * @returns boolean
+ */
+const isPlainObject = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Returns the field definition for a schema definition, nested schemas and arrays become { type: ... }
+ *
+ * @param  {SchemaDefinition} definition
+ * @returns SchemaField
+ */
+export const toSchemaField = (definition: SchemaDefinition): SchemaField =>
+  isSchemaField(definition) ? definition : { type: definition };
+
+/**
+ * Returns the field definition of a top level field of the schema, if any
+ *
+ * @param  {SchemaType} schema
+ * @param  {string} key
+ * @returns SchemaField | undefined
+ */
+export const getSchemaField = (schema: SchemaType, key: string): SchemaField | undefined =>
+  Object.prototype.hasOwnProperty.call(schema, key) ? toSchemaField(schema[key]) : undefined;
+
+/**
+ * Checks if the field holds an array, either untyped (Array) or typed ([{ type: String }])
+ *
+ * @param  {SchemaField} field
+ * @returns boolean
+ */
+export const isArrayField = (field: SchemaField): boolean => field.type === Array || Array.isArray(field.type);
+
+/**
+ * Collects the fields of the schema that refer to records of other models, including arrays of references like
+ * [{ type: String, ref: 'users' }] and the fields of nested schemas
+ *
+ * @param  {SchemaType} schema
+ * @param  {string} prefix path prefix of nested schemas
+ * @returns Array<SchemaReference>
+ */
+export const schemaReferences = (schema: SchemaType, prefix = ''): Array<SchemaReference> =>
+  Object.keys(schema).flatMap((key): Array<SchemaReference> => {
+    const field = toSchemaField(schema[key]);
+    const path = `${prefix}${key}`;
+    const itemField = Array.isArray(field.type) ? toSchemaField(field.type[0]) : undefined;
+
+    if (field.ref) {
+      return [{ path, model: field.ref, isArray: isArrayField(field), onDelete: field.onDelete || 'restrict' }];
+    }
+    if (itemField?.ref) {
+      return [{ path, model: itemField.ref, isArray: true, onDelete: itemField.onDelete || 'restrict' }];
+    }
+    if (isPlainObject(field.type)) {
+      return schemaReferences(field.type as SchemaType, `${path}.`);
+    }
+
+    return [];
+  });
+
+/**
+ * Collects the fields of the schema with an expires option, including the fields of nested schemas
+ *
+ * @param  {SchemaType} schema
+ * @param  {string} prefix path prefix of nested schemas
+ * @returns Array<SchemaTtlField>
+ */
+export const schemaTtlFields = (schema: SchemaType, prefix = ''): Array<SchemaTtlField> =>
+  Object.keys(schema).flatMap((key): Array<SchemaTtlField> => {
+    const field = toSchemaField(schema[key]);
+    const path = `${prefix}${key}`;
+
+    if (field.expires !== undefined) {
+      return [{ path, expires: field.expires }];
+    }
+    if (isPlainObject(field.type)) {
+      return schemaTtlFields(field.type as SchemaType, `${path}.`);
+    }
+
+    return [];
+  });
+
+/**
+ * Returns the name of the type of a field for error messages
+ *
+ * @param  {SchemaField} field
+ * @returns string
+ */
+const typeName = (field: SchemaField): string => {
+  if (isArrayField(field)) return 'Array';
+  if (typeof field.type === 'function') return field.type.name;
+
+  return 'Object';
+};
+
+/**
+ * Checks if a value has the type of the field, nested schemas and array items are checked separately
+ *
+ * @param  {any} value
+ * @param  {SchemaField} field
+ * @returns boolean
+ */
+const hasType = (value: any, field: SchemaField): boolean => {
+  if (isArrayField(field)) return Array.isArray(value);
+
+  switch (field.type) {
+    case String:
+      return typeof value === 'string';
+    case Number:
+      return typeof value === 'number' && !Number.isNaN(value);
+    case Boolean:
+      return typeof value === 'boolean';
+    case Date:
+      return value instanceof Date && !Number.isNaN(value.getTime());
+    default:
+      return isPlainObject(value);
+  }
+};
+
+/**
+ * Fills in the default values of missing fields, including the fields of nested schemas
+ *
+ * @param  {any} record
+ * @param  {SchemaType} schema
+ * @returns void
+ */
+export const applyDefaults = (record: any, schema: SchemaType): void => {
+  for (const key of Object.keys(schema)) {
+    const field = toSchemaField(schema[key]);
+
+    if (record[key] === undefined && field.default !== undefined) {
+      record[key] = typeof field.default === 'function' ? field.default() : field.default;
+    }
+
+    if (isPlainObject(field.type) && isPlainObject(record[key])) {
+      applyDefaults(record[key], field.type as SchemaType);
+    }
+  }
+};
+
+/**
+ * Converts date strings and timestamps of Date fields to Date objects, e.g. after a record was read from JSON
+ *
+ * @param  {any} value
+ * @param  {SchemaField} field
+ * @returns any the converted value
+ */
+const castValue = (value: any, field: SchemaField): any => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (field.type === Date && (typeof value === 'string' || typeof value === 'number')) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  if (Array.isArray(field.type) && Array.isArray(value)) {
+    const itemField = toSchemaField(field.type[0]);
+    return value.map((x) => castValue(x, itemField));
+  }
+  if (isPlainObject(field.type) && isPlainObject(value)) {
+    castRecord(value, field.type as SchemaType);
+  }
+
+  return value;
+};
+
+/**
+ * Converts the values of a record to the types of the schema where JSON can not keep them, i.e. Date fields
+ *
+ * @param  {any} record
+ * @param  {SchemaType} schema
+ * @returns void
+ */
+export const castRecord = (record: any, schema: SchemaType): void => {
+  for (const key of Object.keys(schema)) {
+    if (record[key] !== undefined) {
+      record[key] = castValue(record[key], toSchemaField(schema[key]));
+    }
+  }
+};
+
+/**
+ * Validates one value against its field definition and collects the failures
+ *
+ * @param  {any} value
+ * @param  {SchemaField} field
+ * @param  {string} path dotted path of the value for the error messages
+ * @param  {any} record the whole record, passed to custom validators
+ * @param  {Array<SchemaValidationFailure>} failures
+ * @returns void
+ */
+const validateValue = (
+  value: any,
+  field: SchemaField,
+  path: string,
+  record: any,
+  failures: Array<SchemaValidationFailure>
+): void => {
+  if (value === undefined || value === null || value === '') {
+    if (field.required) {
+      failures.push({ path, criteria: 'required field' });
+    }
+    // empty strings still have to match the type
+    if (value !== '') {
+      return;
+    }
+  }
+
+  if (!hasType(value, field)) {
+    failures.push({ path, criteria: `should be of type ${typeName(field)}` });
+    return;
+  }
+
+  if (field.enum && !field.enum.some((x) => isEqual(x, value))) {
+    failures.push({ path, criteria: `enum ${field.enum}` });
+  }
+  if (field.min !== undefined && (compareValues(value, field.min) ?? 0) < 0) {
+    failures.push({ path, criteria: `min ${field.min}` });
+  }
+  if (field.max !== undefined && (compareValues(value, field.max) ?? 0) > 0) {
+    failures.push({ path, criteria: `max ${field.max}` });
+  }
+  if (field.minLength !== undefined && value.length < field.minLength) {
+    failures.push({ path, criteria: `minLength ${field.minLength}` });
+  }
+  if (field.maxLength !== undefined && value.length > field.maxLength) {
+    failures.push({ path, criteria: `maxLength ${field.maxLength}` });
+  }
+  if (field.match && typeof value === 'string' && !field.match.test(value)) {
+    failures.push({ path, criteria: `match ${field.match}` });
+  }
+  if (field.validate) {
+    const { validator, message } =
+      typeof field.validate === 'function' ? { validator: field.validate, message: 'validate' } : field.validate;
+
+    if (!validator(value, record)) {
+      failures.push({ path, criteria: message });
+    }
+  }
+
+  if (Array.isArray(field.type)) {
+    const itemField = toSchemaField(field.type[0]);
+    value.forEach((x: any, i: number) => validateValue(x, itemField, `${path}.${i}`, record, failures));
+  } else if (isPlainObject(field.type)) {
+    failures.push(...validateRecord(value, field.type as SchemaType, `${path}.`, record));
+  }
+};
+
+/**
+ * Validates a record against the schema and returns all failures with the dotted paths of the fields.
+ * Unique constraints are not checked here since they depend on the other records.
+ *
+ * @param  {any} record
+ * @param  {SchemaType} schema
+ * @param  {string} prefix path prefix of nested records
+ * @param  {any} rootRecord the whole record, passed to custom validators
+ * @returns Array<SchemaValidationFailure>
+ */
+export const validateRecord = (
+  record: any,
+  schema: SchemaType,
+  prefix = '',
+  rootRecord: any = record
+): Array<SchemaValidationFailure> => {
+  const failures: Array<SchemaValidationFailure> = [];
+
+  for (const key of Object.keys(schema)) {
+    validateValue(record[key], toSchemaField(schema[key]), `${prefix}${key}`, rootRecord, failures);
+  }
+
+  return failures;
+};
@@ -1,45 +1,430 @@
-import { IndexCache, SchemaType } from '../types';
+import { InvalidQueryError } from '../SkewerError';
+import {
+  DataCacheType,
+  FilterQuery,
+  FindOptions,
+  HashIndexEntries,
+  IndexCache,
+  IndexDefinition,
+  QueryOperators,
+  SortedIndexEntries,
+} from '../types';
+import { hashEntryIds, lookupKeys, lookupRange } from './indexAlgo';
+import { getValue } from './updateAlgo';
 
-export const find = (
-  searchParams: Partial<any>,
-  schema: SchemaType,
-  dataCache: Map<string, any>,
-  indexCache: IndexCache
-) => {
-  const foundRecords: Array<any> = [],
-    tempDataCache = new Map<string, any>(),
-    searchPArr = Object.entries(searchParams);
-  let counter = 0;
-
-  for (const [key, value] of searchPArr) {
-    ++counter;
-
-    if (schema[key].unique || schema[key].index) {
-      const dbIds = indexCache[key]?.[value];
-
-      dbIds.forEach((dbId) => {
-        const record = (counter === 1 ? dataCache : tempDataCache).get(dbId);
-        if (record) tempDataCache.set(dbId, { ...record, count: (record.count || 0) + 1 });
-      });
-    } else {
-      (counter === 1 ? dataCache : tempDataCache).forEach((dcValue) => {
-        if (dcValue[key] === value) {
-          tempDataCache.set(dcValue.id, { ...dcValue, count: (dcValue.count || 0) + 1 });
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+const QUERY_OPERATORS = [
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$in',
+  '$nin',
+  '$exists',
+  '$regex',
+  '$options',
+  '$size',
+  '$all',
+  '$not',
+];
+
+/**
+ * Checks if a filter value is an operator object like { $gt: 5 } rather than a plain value
+ *
+ * @param  {any} value
+ * @returns boolean
+ */
+export const isOperatorObject = (value: any): value is QueryOperators =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  !(value instanceof RegExp) &&
+  !(value instanceof Date) &&
+  Object.keys(value).length > 0 &&
+  Object.keys(value).every((key) => key.startsWith('$'));
+
+/**
+ * Deep equality used for matching filter values against record values
+ *
+ * @param  {any} a
+ * @param  {any} b
+ * @returns boolean
+ */
+export const isEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  return false;
+};
+
+// ISO 8601 dates like 2024-01-02 or 2024-01-02T10:00:00.000Z, the form dates are stored in
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Converts a date, an ISO 8601 date string or a number of milliseconds to a time, NaN for other values
+ *
+ * @param  {any} value
+ * @returns number
+ */
+const toTime = (value: any): number => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) return Date.parse(value);
+
+  return NaN;
+};
+
+/**
+ * Compares two values of the same kind, returns undefined when they are not comparable. A date is compared by its
+ * time with another date and with an ISO date string, as records hold dates once they were saved.
+ *
+ * @param  {any} a
+ * @param  {any} b
+ * @returns number | undefined
+ */
+export const compareValues = (a: any, b: any): number | undefined => {
+  if (a instanceof Date || b instanceof Date) {
+    const aTime = toTime(a),
+      bTime = toTime(b);
+
+    return isNaN(aTime) || isNaN(bTime) ? undefined : aTime < bTime ? -1 : aTime > bTime ? 1 : 0;
+  }
+
+  if (a === undefined || a === null || b === undefined || b === null || typeof a !== typeof b) {
+    return undefined;
+  }
+
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Compares two values for sorting, missing values come first and values of different types are compared as strings
+ *
+ * @param  {any} a
+ * @param  {any} b
+ * @returns number
+ */
+export const compareSortValues = (a: any, b: any): number => {
+  const aMissing = a === undefined || a === null,
+    bMissing = b === undefined || b === null;
+
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? -1 : 1;
+  }
+
+  return compareValues(a, b) ?? compareValues(`${a}`, `${b}`) ?? 0;
+};
+
+/**
+ * Equality as MongoDB does it: an array field matches if it equals the value or contains it, and null matches
+ * missing fields
+ *
+ * @param  {any} fieldValue
+ * @param  {any} value
+ * @returns boolean
+ */
+const matchesEquality = (fieldValue: any, value: any): boolean => {
+  if (value === null && fieldValue === undefined) {
+    return true;
+  }
+  if (value instanceof RegExp) {
+    return matchesRegex(fieldValue, value);
+  }
+  if (Array.isArray(fieldValue) && !Array.isArray(value)) {
+    return fieldValue.some((x) => isEqual(x, value));
+  }
+
+  return isEqual(fieldValue, value);
+};
+
+const matchesRegex = (fieldValue: any, regex: RegExp): boolean => {
+  if (Array.isArray(fieldValue)) {
+    return fieldValue.some((x) => typeof x === 'string' && regex.test(x));
+  }
+
+  return typeof fieldValue === 'string' && regex.test(fieldValue);
+};
+
+/**
+ * Runs a comparison against the field value, or against any of its items if it is an array
+ *
+ * @param  {any} fieldValue
+ * @param  {any} value
+ * @param  {Function} predicate
+ * @returns boolean
+ */
+const matchesComparison = (fieldValue: any, value: any, predicate: (result: number) => boolean): boolean => {
+  const values = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+
+  return values.some((x) => {
+    const result = compareValues(x, value);
+    return result !== undefined && predicate(result);
+  });
+};
+
+/**
+ * Checks a single field value against an operator object
+ *
+ * @param  {any} fieldValue
+ * @param  {QueryOperators} operators
+ * @returns boolean
+ */
+const matchesOperators = (fieldValue: any, operators: QueryOperators): boolean => {
+  for (const [operator, value] of Object.entries(operators)) {
+    switch (operator) {
+      case '$eq':
+        if (!matchesEquality(fieldValue, value)) return false;
+        break;
+      case '$ne':
+        if (matchesEquality(fieldValue, value)) return false;
+        break;
+      case '$gt':
+        if (!matchesComparison(fieldValue, value, (x) => x > 0)) return false;
+        break;
+      case '$gte':
+        if (!matchesComparison(fieldValue, value, (x) => x >= 0)) return false;
+        break;
+      case '$lt':
+        if (!matchesComparison(fieldValue, value, (x) => x < 0)) return false;
+        break;
+      case '$lte':
+        if (!matchesComparison(fieldValue, value, (x) => x <= 0)) return false;
+        break;
+      case '$in':
+        if (!(value as Array<any>).some((x) => matchesEquality(fieldValue, x))) return false;
+        break;
+      case '$nin':
+        if ((value as Array<any>).some((x) => matchesEquality(fieldValue, x))) return false;
+        break;
+      case '$exists':
+        if ((fieldValue !== undefined) !== value) return false;
+        break;
+      case '$regex': {
+        const regex = value instanceof RegExp ? value : new RegExp(value as string, operators.$options);
+        if (!matchesRegex(fieldValue, regex)) return false;
+        break;
+      }
+      case '$options':
+        break;
+      case '$size':
+        if (!Array.isArray(fieldValue) || fieldValue.length !== value) return false;
+        break;
+      case '$all':
+        if (!Array.isArray(fieldValue) || !(value as Array<any>).every((x) => matchesEquality(fieldValue, x))) {
+          return false;
         }
-      });
+        break;
+      case '$not':
+        if (isOperatorObject(value) ? matchesOperators(fieldValue, value) : matchesEquality(fieldValue, value)) {
+          return false;
+        }
+        break;
+      default:
+        throw new InvalidQueryError(operator);
     }
+  }
 
-    if (tempDataCache.size === 0) {
-      break;
+  return true;
+};
+
+/**
+ * Checks if a record satisfies a filter query, keys can be dotted paths of nested fields
+ *
+ * @param  {any} record
+ * @param  {FilterQuery} filter
+ * @returns boolean
+ */
+export const matchesFilter = (record: any, filter: FilterQuery): boolean => {
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and') {
+      if (!(value as Array<FilterQuery>).every((x) => matchesFilter(record, x))) return false;
+    } else if (key === '$or') {
+      if (!(value as Array<FilterQuery>).some((x) => matchesFilter(record, x))) return false;
+    } else if (key === '$nor') {
+      if ((value as Array<FilterQuery>).some((x) => matchesFilter(record, x))) return false;
+    } else if (isOperatorObject(value)) {
+      if (!matchesOperators(getValue(record, key), value)) return false;
+    } else if (!matchesEquality(getValue(record, key), value)) {
+      return false;
     }
   }
 
-  tempDataCache.forEach((value) => {
-    if (value.count === searchPArr.length) {
-      delete value.count;
-      foundRecords.push(value);
+  return true;
+};
+
+/**
+ * Checks that every operator used in the filter is supported, so invalid queries fail even on empty collections
+ *
+ * @param  {FilterQuery} filter
+ * @returns void
+ * @throws InvalidQueryError
+ */
+export const validateFilter = (filter: FilterQuery): void => {
+  const validateOperators = (operators: QueryOperators) =>
+    Object.entries(operators).forEach(([operator, value]) => {
+      if (!QUERY_OPERATORS.includes(operator)) {
+        throw new InvalidQueryError(operator);
+      }
+      if (operator === '$not' && isOperatorObject(value)) {
+        validateOperators(value);
+      }
+    });
+
+  Object.entries(filter).forEach(([key, value]) => {
+    if (LOGICAL_OPERATORS.includes(key)) {
+      (value as Array<FilterQuery>).forEach((x) => validateFilter(x));
+    } else if (key.startsWith('$')) {
+      throw new InvalidQueryError(key);
+    } else if (isOperatorObject(value)) {
+      validateOperators(value);
     }
   });
+};
+
+/**
+ * Narrows down the candidate record ids using the indexes for equality and $in conditions on indexed fields, and
+ * range conditions on fields with a sorted index. A compound index is used when the filter has a condition for each
+ * of its fields.
+ * Returns undefined if no condition in the filter can be served by an index.
+ *
+ * @param  {FilterQuery} filter
+ * @param  {Array<IndexDefinition>} indexes
+ * @param  {IndexCache} indexCache
+ * @returns Array<string> | undefined
+ */
+export const findIndexedCandidates = (
+  filter: FilterQuery,
+  indexes: Array<IndexDefinition>,
+  indexCache: IndexCache
+): Array<string> | undefined => {
+  let candidates: Set<string> | undefined;
+
+  for (const index of indexes) {
+    const ids = new Set<string>();
+
+    if (index.text) {
+      continue;
+    }
+    if (index.sorted) {
+      const entries = (indexCache[index.name] || []) as SortedIndexEntries;
+      const range = Object.prototype.hasOwnProperty.call(filter, index.fields[0])
+        ? lookupRange(filter[index.fields[0]], entries)
+        : undefined;
+
+      if (!range) {
+        continue;
+      }
+
+      entries.slice(range[0], range[1]).forEach(([, id]) => ids.add(id));
+    } else {
+      const keys = lookupKeys(filter, index);
+
+      if (!keys) {
+        continue;
+      }
+
+      const entries = (indexCache[index.name] || {}) as HashIndexEntries;
+      keys.forEach((key) => hashEntryIds(entries, key).forEach((id) => ids.add(id)));
+    }
+
+    candidates = candidates ? new Set([...candidates].filter((id) => ids.has(id))) : ids;
+  }
+
+  return candidates ? [...candidates] : undefined;
+};
+
+/**
+ * Walks a sorted index in sort order and collects the matching records until the limit is reached. Records with the
+ * same value as the last collected one are collected as well, so that a sort on further fields can order them.
+ *
+ * @param  {FilterQuery} filter
+ * @param  {IndexDefinition} index
+ * @param  {1 | -1} order
+ * @param  {number} limit
+ * @param  {DataCacheType<T>} dataCache
+ * @param  {IndexCache} indexCache
+ * @returns Array<T>
+ */
+const findInIndexOrder = <T>(
+  filter: FilterQuery,
+  index: IndexDefinition,
+  order: 1 | -1,
+  limit: number,
+  dataCache: DataCacheType<T>,
+  indexCache: IndexCache
+): Array<T> => {
+  const entries = (indexCache[index.name] || []) as SortedIndexEntries;
+  const field = index.fields[0];
+  const [start, end] = (Object.prototype.hasOwnProperty.call(filter, field) && lookupRange(filter[field], entries)) || [
+    0,
+    entries.length,
+  ];
+
+  const results: Array<T> = [];
+  const visitedIds = new Set<string>();
+  let lastValue: any;
+
+  for (let i = order === 1 ? start : end - 1; i >= start && i < end; i += order) {
+    const [value, id] = entries[i];
+
+    if (results.length >= limit && (limit === 0 || compareSortValues(value, lastValue) !== 0)) {
+      break;
+    }
+    if (visitedIds.has(id)) {
+      continue;
+    }
+
+    visitedIds.add(id);
+    if (dataCache[id] && matchesFilter(dataCache[id], filter)) {
+      results.push(dataCache[id]);
+      lastValue = value;
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Locates all records in the data cache that match the filter query, using indexes where possible. When the first
+ * sort field has a sorted index that holds every record and a limit is given, the index is walked in sort order
+ * and only the needed records are returned.
+ *
+ * @param  {FilterQuery} filter
+ * @param  {Array<IndexDefinition>} indexes
+ * @param  {DataCacheType<T>} dataCache
+ * @param  {IndexCache} indexCache
+ * @param  {FindOptions} options
+ * @returns Array<T>
+ */
+export const find = <T>(
+  filter: FilterQuery,
+  indexes: Array<IndexDefinition>,
+  dataCache: DataCacheType<T>,
+  indexCache: IndexCache,
+  options: FindOptions = {}
+): Array<T> => {
+  validateFilter(filter);
+
+  const [sortField, direction] = Object.entries(options.sort || {})[0] || [];
+  const sortIndex =
+    sortField !== undefined && options.limit !== undefined
+      ? indexes.find((x) => x.sorted && !x.sparse && x.fields[0] === sortField)
+      : undefined;
+
+  if (sortIndex) {
+    const order = direction === -1 || direction === 'desc' ? -1 : 1;
+    return findInIndexOrder(filter, sortIndex, order, options.limit as number, dataCache, indexCache);
+  }
+
+  const candidateIds = findIndexedCandidates(filter, indexes, indexCache);
+  const candidates = candidateIds ? candidateIds.map((id) => dataCache[id]).filter(Boolean) : Object.values(dataCache);
 
-  return foundRecords;
+  return candidates.filter((record) => matchesFilter(record, filter));
 };
@@ -0,0 +1,175 @@
+import { TextIndexEntries } from '../types';
+import { CONSTANTS } from '../Constants';
+
+const stopWords = new Set(CONSTANTS.textStopWords);
+
+// suffixes removed by the stemmer with their replacement, the first matching one wins
+const suffixes: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['iveness', 'ive'],
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['ies', 'y'],
+  ['ied', 'y'],
+  ['edly', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['es', ''],
+  ['s', ''],
+];
+
+/**
+ * Drops a trailing "e" of words longer than 3 characters, so that e.g. "note" and "noted" share the stem "not"
+ *
+ * @param  {string} word
+ * @returns string
+ */
+const dropTrailingE = (word: string): string => (word.endsWith('e') && word.length > 3 ? word.slice(0, -1) : word);
+
+/**
+ * Reduces a word to its stem with a few suffix rules, so that e.g. "notes", "noted" and "noting" match "note".
+ * Stems keep at least 3 characters and words ending in "ss" keep their ending.
+ *
+ * @param  {string} word lowercase word
+ * @returns string
+ */
+export const stem = (word: string): string => {
+  if (word.endsWith('ss')) {
+    return word;
+  }
+
+  const rule = suffixes.find(
+    ([suffix, replacement]) => word.endsWith(suffix) && word.length - suffix.length + replacement.length >= 3
+  );
+
+  return dropTrailingE(rule ? word.slice(0, -rule[0].length) + rule[1] : word);
+};
+
+/**
+ * Splits a text into lowercase, stemmed terms without stop words
+ *
+ * @param  {string} text
+ * @returns Array<string>
+ */
+export const tokenize = (text: string): Array<string> =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word && !stopWords.has(word))
+    .map(stem);
+
+/**
+ * Returns the text of a field value, the strings of an array are joined and other values have no text
+ *
+ * @param  {any} value
+ * @returns string
+ */
+const textOf = (value: any): string => {
+  if (Array.isArray(value)) return value.filter((x) => typeof x === 'string').join(' ');
+
+  return typeof value === 'string' ? value : '';
+};
+
+/**
+ * Returns an own property of an object, keys like "constructor" do not resolve to the prototype
+ *
+ * @param  {object} object
+ * @param  {string} key
+ * @returns any
+ */
+const ownValue = (object: object, key: string): any =>
+  Object.prototype.hasOwnProperty.call(object, key) ? (object as any)[key] : undefined;
+
+/**
+ * Sets an own property of an object, a key like "__proto__" does not replace the prototype
+ *
+ * @param  {object} object
+ * @param  {string} key
+ * @param  {any} value
+ * @returns void
+ */
+const setOwnValue = (object: object, key: string, value: any): void => {
+  Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+};
+
+/**
+ * Adds the terms of a field value to a text index, values without terms are not indexed
+ *
+ * @param  {TextIndexEntries} entries
+ * @param  {any} value
+ * @param  {string} id
+ * @returns void
+ */
+export const addToTextIndex = (entries: TextIndexEntries, value: any, id: string): void => {
+  const terms = tokenize(textOf(value));
+
+  if (!terms.length) {
+    return;
+  }
+
+  setOwnValue(entries.lengths, id, terms.length);
+  terms.forEach((term) => {
+    if (!ownValue(entries.terms, term)) {
+      setOwnValue(entries.terms, term, {});
+    }
+
+    const frequencies = entries.terms[term];
+    setOwnValue(frequencies, id, (ownValue(frequencies, id) || 0) + 1);
+  });
+};
+
+/**
+ * Removes the terms of a field value from a text index, terms without records are removed as well
+ *
+ * @param  {TextIndexEntries} entries
+ * @param  {any} value the indexed value
+ * @param  {string} id
+ * @returns void
+ */
+export const removeFromTextIndex = (entries: TextIndexEntries, value: any, id: string): void => {
+  delete entries.lengths[id];
+
+  tokenize(textOf(value)).forEach((term) => {
+    if (!ownValue(entries.terms, term)) {
+      return;
+    }
+
+    delete entries.terms[term][id];
+    if (!Object.keys(entries.terms[term]).length) {
+      delete entries.terms[term];
+    }
+  });
+};
+
+/**
+ * Adds the BM25 scores of the records in a text index for the search terms to the scores
+ *
+ * @param  {TextIndexEntries} entries
+ * @param  {Array<string>} terms distinct search terms
+ * @param  {Map<string, number>} scores scores by record id, records without a score do not match
+ * @returns void
+ */
+export const scoreTextIndex = (entries: TextIndexEntries, terms: Array<string>, scores: Map<string, number>): void => {
+  const lengths = Object.values(entries.lengths);
+  const averageLength = lengths.reduce((sum, x) => sum + x, 0) / lengths.length;
+  const { textScoreK1: k1, textScoreB: b } = CONSTANTS;
+
+  terms.forEach((term) => {
+    const frequencies: { [id: string]: number } = ownValue(entries.terms, term) || {};
+    const matchCount = Object.keys(frequencies).length;
+    const idf = Math.log(1 + (lengths.length - matchCount + 0.5) / (matchCount + 0.5));
+
+    Object.entries(frequencies).forEach(([id, frequency]) => {
+      const lengthNorm = 1 - b + (b * entries.lengths[id]) / averageLength;
+      const score = (idf * frequency * (k1 + 1)) / (frequency + k1 * lengthNorm);
+
+      scores.set(id, (scores.get(id) || 0) + score);
+    });
+  });
+};
@@ -0,0 +1,226 @@
+import { InvalidQueryError } from '../SkewerError';
+import { UpdateQuery } from '../types';
+import { CONSTANTS } from '../Constants';
+import { isEqual, isOperatorObject, matchesFilter } from './searchAlgo';
+
+const UPDATE_OPERATORS = ['$set', '$unset', '$inc', '$mul', '$min', '$max', '$push', '$addToSet', '$pull', '$rename'];
+
+/**
+ * Deep clones a record, keeping Date values intact
+ *
+ * @param  {T} value
+ * @returns T
+ */
+export const deepClone = <T>(value: T): T => {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((x) => deepClone(x)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, x]) => [key, deepClone(x)])) as T;
+  }
+
+  return value;
+};
+
+/**
+ * Reads a value from a record using a dotted path like "address.city"
+ *
+ * @param  {any} record
+ * @param  {string} path
+ * @returns any
+ */
+export const getValue = (record: any, path: string): any =>
+  path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), record);
+
+/**
+ * Sets a value on a record using a dotted path, creating the intermediate objects if missing
+ *
+ * @param  {any} record
+ * @param  {string} path
+ * @param  {any} value
+ * @returns void
+ */
+export const setValue = (record: any, path: string, value: any): void => {
+  const keys = path.split('.');
+  const lastKey = keys.pop() as string;
+
+  const parent = keys.reduce((current, key) => {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+
+    return current[key];
+  }, record);
+
+  parent[lastKey] = value;
+};
+
+/**
+ * Removes a value from a record using a dotted path
+ *
+ * @param  {any} record
+ * @param  {string} path
+ * @returns void
+ */
+export const unsetValue = (record: any, path: string): void => {
+  const keys = path.split('.');
+  const lastKey = keys.pop() as string;
+  const parent = keys.length ? getValue(record, keys.join('.')) : record;
+
+  if (parent && typeof parent === 'object') {
+    delete parent[lastKey];
+  }
+};
+
+/**
+ * Compares the top level fields of two versions of a record
+ *
+ * @param  {any} previousRecord
+ * @param  {any} record
+ * @returns the fields that were added or changed with their new values, and the names of the removed fields
+ */
+export const diffFields = (previousRecord: any, record: any): { updatedFields: any; removedFields: Array<string> } => ({
+  updatedFields: Object.fromEntries(
+    Object.entries(record).filter(([key, value]) => !isEqual(previousRecord[key], value))
+  ),
+  removedFields: Object.keys(previousRecord).filter((key) => record[key] === undefined),
+});
+
+/**
+ * Checks if the update uses update operators like $set rather than being a plain partial record
+ *
+ * @param  {any} update
+ * @returns boolean
+ */
+export const isOperatorUpdate = (update: any): update is UpdateQuery =>
+  Object.keys(update).length > 0 && Object.keys(update).every((key) => key.startsWith('$'));
+
+/**
+ * Returns the values to add for $push / $addToSet, which accept either a single value or { $each: [...] }
+ *
+ * @param  {any} value
+ * @returns Array<any>
+ */
+const eachValues = (value: any): Array<any> =>
+  value && typeof value === 'object' && Array.isArray(value.$each) ? value.$each : [value];
+
+/**
+ * Returns the array stored at the path, creating it if it is missing
+ *
+ * @param  {any} record
+ * @param  {string} path
+ * @param  {string} operator
+ * @returns Array<any>
+ */
+const arrayAt = (record: any, path: string, operator: string): Array<any> => {
+  const current = getValue(record, path);
+
+  if (current === undefined || current === null) {
+    const created: Array<any> = [];
+    setValue(record, path, created);
+    return created;
+  }
+  if (!Array.isArray(current)) {
+    throw new InvalidQueryError(`${operator} on the non array field ${path}`);
+  }
+
+  return current;
+};
+
+/**
+ * Checks if an array item should be removed by $pull. The condition can be a value, an operator
+ * object like { $gt: 5 } or a filter for array items that are objects.
+ *
+ * @param  {any} item
+ * @param  {any} condition
+ * @returns boolean
+ */
+const matchesPullCondition = (item: any, condition: any): boolean => {
+  if (isOperatorObject(condition)) {
+    return matchesFilter({ item }, { item: condition });
+  }
+  if (condition && typeof condition === 'object' && !Array.isArray(condition) && item && typeof item === 'object') {
+    return matchesFilter(item, condition);
+  }
+
+  return isEqual(item, condition);
+};
+
+/**
+ * Returns a copy of the record with the update applied. A plain object is treated as { $set: update }.
+ * The id, createdAt and updatedAt fields can not be changed by an update and are ignored.
+ *
+ * @param  {T} record
+ * @param  {UpdateQuery | Partial<T>} update
+ * @returns T
+ * @throws InvalidQueryError
+ */
+export const applyUpdate = <T>(record: T, update: UpdateQuery | Partial<T>): T => {
+  const updated: any = deepClone(record);
+  const operations: UpdateQuery = isOperatorUpdate(update) ? update : { $set: update };
+
+  for (const [operator, fields] of Object.entries(operations)) {
+    if (!UPDATE_OPERATORS.includes(operator)) {
+      throw new InvalidQueryError(operator);
+    }
+
+    for (const [path, value] of Object.entries(fields || {})) {
+      if (CONSTANTS.ignoredDBRecordKeys.includes(path)) {
+        continue;
+      }
+
+      const current = getValue(updated, path);
+
+      switch (operator) {
+        case '$set':
+          setValue(updated, path, deepClone(value));
+          break;
+        case '$unset':
+          unsetValue(updated, path);
+          break;
+        case '$inc':
+          setValue(updated, path, (current ?? 0) + value);
+          break;
+        case '$mul':
+          setValue(updated, path, (current ?? 0) * value);
+          break;
+        case '$min':
+          if (current === undefined || value < current) setValue(updated, path, value);
+          break;
+        case '$max':
+          if (current === undefined || value > current) setValue(updated, path, value);
+          break;
+        case '$push':
+          arrayAt(updated, path, operator).push(...deepClone(eachValues(value)));
+          break;
+        case '$addToSet': {
+          const array = arrayAt(updated, path, operator);
+          eachValues(value).forEach((x) => {
+            if (!array.some((y) => isEqual(x, y))) array.push(deepClone(x));
+          });
+          break;
+        }
+        case '$pull':
+          if (Array.isArray(current)) {
+            setValue(
+              updated,
+              path,
+              current.filter((x) => !matchesPullCondition(x, value))
+            );
+          }
+          break;
+        case '$rename':
+          if (current !== undefined && !CONSTANTS.ignoredDBRecordKeys.includes(value)) {
+            unsetValue(updated, path);
+            setValue(updated, value, current);
+          }
+          break;
+      }
+    }
+  }
+
+  return updated;
+};
@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+import { createServer, ISkewerModel, MemoryStorageAdapter, SchemaType, ServerOptions, SkewerDatabase } from '../src';
+
+interface UserModel extends ISkewerModel {
+  name: string;
+  age: number;
+  email?: string;
+}
+
+const userSchema: SchemaType = {
+  name: { type: String, required: true, unique: true },
+  age: { type: Number, min: 0 },
+  email: { type: String },
+};
+
+describe('createServer', () => {
+  let db: SkewerDatabase;
+  let server: Server;
+  let baseUrl: string;
+
+  const start = async (options: ServerOptions = {}) => {
+    server = createServer(db, options);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const request = async (method: string, path: string, body?: any) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    const text = await response.text();
+
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  };
+
+  beforeEach(() => {
+    db = new SkewerDatabase(new MemoryStorageAdapter());
+    db.model<UserModel>('users', userSchema);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should create, read, update and delete records', async () => {
+    await start();
+
+    const created = await request('POST', '/users', { name: 'Ann', age: 30 });
+    assert.equal(created.status, 201);
+    const { id } = created.body;
+
+    assert.equal((await request('GET', `/users/${id}`)).body.name, 'Ann');
+
+    const patched = await request('PATCH', `/users/${id}`, { $inc: { age: 1 } });
+    assert.equal(patched.status, 200);
+    assert.equal(patched.body.age, 31);
+
+    const deleted = await request('DELETE', `/users/${id}`);
+    assert.equal(deleted.status, 200);
+    assert.equal((await request('GET', `/users/${id}`)).status, 404);
+    assert.equal(db.model('users').countAll(), 0);
+  });
+
+  it('should replace a record with PUT and create it if missing', async () => {
+    await start();
+
+    const created = await request('PUT', '/users/ann', { name: 'Ann', age: 30, email: 'ann@example.com' });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.id, 'ann');
+
+    const replaced = await request('PUT', '/users/ann', { name: 'Ann', age: 31 });
+    assert.equal(replaced.status, 200);
+    assert.equal(replaced.body.age, 31);
+    assert.equal(replaced.body.email, undefined);
+    assert.equal(replaced.body.createdAt, created.body.createdAt);
+
+    assert.equal((await request('PUT', '/users/ann', { $set: { age: 1 } })).status, 400);
+  });
+
+  it('should find records with filters, sort and pagination from the query string', async () => {
+    await start();
+    for (const [name, age] of [
+      ['Ann', 30],
+      ['Bob', 40],
+      ['Cid', 50],
+      ['Dan', 40],
+    ]) {
+      await request('POST', '/users', { name, age });
+    }
+
+    const byField = await request('GET', '/users?age=40&sort=-name');
+    assert.deepEqual(
+      byField.body.map((x: any) => x.name),
+      ['Dan', 'Bob']
+    );
+
+    const filter = encodeURIComponent(JSON.stringify({ age: { $gte: 40 } }));
+    const page = await request('GET', `/users?filter=${filter}&sort={"age":1,"name":1}&skip=1&limit=2`);
+    assert.deepEqual(
+      page.body.map((x: any) => x.name),
+      ['Dan', 'Cid']
+    );
+    assert.equal(page.headers.get('x-total-count'), '3');
+
+    assert.equal((await request('GET', '/users?limit=-1')).status, 400);
+    assert.deepEqual((await request('GET', '/')).body, ['users']);
+  });
+
+  it('should map errors to status codes', async () => {
+    await start();
+    const { body } = await request('POST', '/users', { name: 'Ann' });
+
+    const invalid = await request('POST', '/users', { age: -1 });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error, 'SchemaValidationError');
+    assert.equal(invalid.body.errors.length, 2);
+
+    assert.equal((await request('PATCH', '/users/missing', { age: 1 })).status, 404);
+    assert.equal((await request('DELETE', '/users/missing')).status, 404);
+    assert.equal((await request('GET', '/books')).status, 404);
+    const duplicate = await request('POST', '/users', { name: 'Ann' });
+    assert.equal(duplicate.status, 400);
+    assert.deepEqual(duplicate.body.errors, [{ path: 'name', criteria: 'unique' }]);
+    assert.equal((await request('POST', '/users', { id: body.id, name: 'Bob' })).status, 409);
+    assert.equal((await request('POST', '/users', '{name')).status, 400);
+
+    const malformed = await request('GET', '/users/%E0%A4%A');
+    assert.equal(malformed.status, 400);
+    assert.equal(malformed.body.error, 'HttpError');
+  });
+
+  it('should reject writes in read-only mode', async () => {
+    await db.model('users').initialize();
+    await db.model('users').insertOne({ name: 'Ann' });
+    await start({ readOnly: true });
+
+    assert.equal((await request('GET', '/users')).body.length, 1);
+    assert.equal((await request('POST', '/users', { name: 'Bob' })).status, 405);
+    assert.equal((await request('DELETE', '/users/x')).status, 405);
+    assert.equal(db.model('users').countAll(), 1);
+  });
+
+  it('should answer with CORS headers', async () => {
+    await start({ cors: 'http://localhost:3000' });
+
+    const preflight = await request('OPTIONS', '/users');
+    assert.equal(preflight.status, 204);
+    assert.equal(preflight.headers.get('access-control-allow-origin'), 'http://localhost:3000');
+    assert.match(preflight.headers.get('access-control-allow-methods') as string, /PATCH/);
+
+    const response = await request('GET', '/users');
+    assert.equal(response.headers.get('access-control-allow-origin'), 'http://localhost:3000');
+  });
+
+  it('should reject request bodies that are too large', async () => {
+    await start({ maxBodySize: 10 });
+
+    assert.equal((await request('POST', '/users', { name: 'A very long name' })).status, 413);
+  });
+});
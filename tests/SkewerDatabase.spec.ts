@@ -0,0 +1,325 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+
+import { SkewerDatabase, SkewerModel, ISkewerModel, SchemaType, MemoryStorageAdapter } from '../src';
+
+interface TestModel extends ISkewerModel {
+  name: string;
+  age: number;
+}
+
+const testSchema: SchemaType = {
+  name: { type: String, required: true, unique: true },
+  age: { type: Number, required: true },
+};
+
+describe('SkewerDatabase', () => {
+  let db: SkewerDatabase;
+  const testBasePath = `${process.cwd()}/test_storage/database`;
+
+  beforeEach(async () => {
+    fs.rmSync(testBasePath, { recursive: true, force: true });
+    fs.mkdirSync(testBasePath, { recursive: true });
+    db = new SkewerDatabase(testBasePath);
+  });
+
+  it('should return the same model instance for a name', () => {
+    const model = db.model<TestModel>('users', testSchema);
+
+    assert.equal(db.model('users'), model);
+    assert.equal(db.model('users', testSchema), model);
+  });
+
+  it('should throw ModelRegistrationError for an unknown model or a different schema', () => {
+    db.model<TestModel>('users', testSchema);
+
+    assert.throws(() => db.model('orders'), /ModelRegistrationError/);
+    assert.throws(() => db.model('users', { ...testSchema }), /ModelRegistrationError/);
+  });
+
+  it('should initialize every model on connect and save them on close', async () => {
+    const users = db.model<TestModel>('users', testSchema);
+    const orders = db.model<TestModel>('orders', testSchema);
+    await db.connect();
+
+    await users.insertOne({ name: 'John Doe', age: 30 });
+    await orders.insertOne({ name: 'Order 1', age: 1 });
+    await db.close();
+
+    const reopenedDb = new SkewerDatabase(testBasePath);
+    reopenedDb.model<TestModel>('users', testSchema);
+    reopenedDb.model<TestModel>('orders', testSchema);
+    await reopenedDb.connect();
+
+    assert.equal(reopenedDb.model('users').countAll(), 1);
+    assert.equal(reopenedDb.model('orders').countAll(), 1);
+  });
+
+  it('should stop the TTL sweepers of the models on close', async () => {
+    const sessions = db.model<any>('sessions', { user: { type: String } });
+    await db.connect();
+
+    await sessions.insertOne({ user: 'ann', expireAt: new Date(Date.now() + 60 * 1000) });
+    assert.ok((sessions as any).sweeper);
+
+    await db.close();
+    assert.equal((sessions as any).sweeper, undefined);
+  });
+
+  it('should list collections of registered models and of the storage', async () => {
+    db.model<TestModel>('users', testSchema);
+    db.model<TestModel>('orders', testSchema);
+    await db.connect();
+
+    const otherDb = new SkewerDatabase(testBasePath);
+    otherDb.model<TestModel>('products', testSchema);
+
+    assert.deepEqual(await otherDb.listCollections(), ['orders', 'products', 'users']);
+  });
+
+  it('should drop a collection', async () => {
+    const users = db.model<TestModel>('users', testSchema);
+    await db.connect();
+    await users.insertOne({ name: 'John Doe', age: 30 });
+
+    assert.equal(await db.dropCollection('users'), true);
+    assert.equal(await db.dropCollection('users'), false);
+    assert.deepEqual(await db.listCollections(), []);
+    assert.deepEqual(fs.readdirSync(testBasePath), []);
+    assert.throws(() => db.model('users'), /ModelRegistrationError/);
+  });
+
+  it('should not drop a collection of a read-only database', async () => {
+    const users = db.model<TestModel>('users', testSchema);
+    await db.connect();
+    await users.insertOne({ name: 'John Doe', age: 30 });
+    const readOnlyDb = new SkewerDatabase(testBasePath, { readOnly: true });
+
+    await assert.rejects(readOnlyDb.dropCollection('users'), /ReadOnlyError/);
+    assert.deepEqual(await readOnlyDb.listCollections(), ['users']);
+    assert.equal(fs.existsSync(`${testBasePath}/users.json`), true);
+  });
+
+  it('should return stats of the models', async () => {
+    const memoryDb = new SkewerDatabase(new MemoryStorageAdapter());
+    const users = memoryDb.model<TestModel>('users', testSchema);
+    memoryDb.model<TestModel>('orders', testSchema);
+    await memoryDb.connect();
+    await users.insertMany([
+      { name: 'John Doe', age: 30 },
+      { name: 'Jane Doe', age: 25 },
+    ]);
+
+    const stats = await memoryDb.stats();
+    assert.equal(stats.records, 2);
+    assert.deepEqual(
+      stats.collections.map((x) => [x.name, x.records]),
+      [
+        ['users', 2],
+        ['orders', 0],
+      ]
+    );
+    assert.ok(stats.size > 0);
+  });
+
+  describe('references', () => {
+    let memoryDb: SkewerDatabase;
+
+    beforeEach(async () => {
+      memoryDb = new SkewerDatabase(new MemoryStorageAdapter());
+      memoryDb.model('users', testSchema);
+      memoryDb.model('tags', { name: { type: String, required: true } });
+      memoryDb.model('orders', {
+        userId: { type: String, required: true, ref: 'users', onDelete: 'cascade' },
+        tagIds: [{ type: String, ref: 'tags', onDelete: 'setNull' }],
+      });
+      memoryDb.model('reviews', { userId: { type: String, ref: 'users' } });
+      await memoryDb.connect();
+
+      await memoryDb.model('users').insertMany([
+        { id: 'u1', name: 'John Doe', age: 30 },
+        { id: 'u2', name: 'Jane Doe', age: 25 },
+      ]);
+      await memoryDb.model('tags').insertMany([
+        { id: 't1', name: 'urgent' },
+        { id: 't2', name: 'gift' },
+      ]);
+    });
+
+    it('should check that referenced records exist on write', async () => {
+      const orders = memoryDb.model('orders');
+
+      await orders.insertOne({ userId: 'u1', tagIds: ['t1'] });
+      const error = await orders.insertOne({ userId: 'u3', tagIds: ['t1', 't3'] }).catch((x) => x);
+
+      assert.equal(error.name, 'SchemaValidationError');
+      assert.deepEqual(
+        error.errors.map((x: any) => [x.path, x.criteria]),
+        [
+          ['userId', 'ref users'],
+          ['tagIds.1', 'ref tags'],
+        ]
+      );
+      await assert.rejects(orders.updateMany({}, { userId: 'u3' }), /ref users/);
+    });
+
+    it('should populate references', async () => {
+      const orders = memoryDb.model('orders');
+      const order = await orders.insertOne({ userId: 'u1', tagIds: ['t1', 't2'] });
+
+      const populated = await orders.findOne({ id: order.id }).populate('userId tagIds');
+      assert.equal(populated?.userId.name, 'John Doe');
+      assert.deepEqual(
+        populated?.tagIds.map((x: any) => x.name),
+        ['urgent', 'gift']
+      );
+      assert.equal(orders.findById(order.id)?.userId, 'u1');
+
+      const [projected] = await orders.find().select(['userId']).populate(['userId']);
+      assert.deepEqual(Object.keys(projected), ['id', 'userId']);
+      await assert.rejects(orders.find().populate('createdAt').exec(), /ReferenceIntegrityError/);
+    });
+
+    it('should apply the onDelete rules', async () => {
+      const users = memoryDb.model('users');
+      const orders = memoryDb.model('orders');
+      const reviews = memoryDb.model('reviews');
+      await orders.insertMany([
+        { userId: 'u1', tagIds: ['t1', 't2'] },
+        { userId: 'u2', tagIds: ['t1'] },
+      ]);
+      await reviews.insertOne({ userId: 'u2' });
+
+      await users.deleteById('u1');
+      assert.equal(orders.countAll(), 1);
+
+      await memoryDb.model('tags').deleteById('t1');
+      assert.deepEqual(
+        orders.getAllRecords().map((x) => x.tagIds),
+        [[]]
+      );
+
+      await assert.rejects(users.deleteById('u2'), /ReferenceIntegrityError/);
+      await assert.rejects(users.deleteAll(), /ReferenceIntegrityError/);
+      assert.equal(orders.countAll(), 1);
+      assert.equal(users.countAll(), 1);
+
+      await reviews.deleteAll();
+      await users.deleteMany({ age: 25 });
+      assert.equal(orders.countAll(), 0);
+    });
+
+    it('should require a database for references', async () => {
+      const model = new SkewerModel('orders', { userId: { type: String, ref: 'users' } }, new MemoryStorageAdapter());
+      await model.initialize();
+
+      await assert.rejects(model.insertOne({ userId: 'u1' }), /ModelRegistrationError/);
+    });
+  });
+
+  describe('backups', () => {
+    const backupPath = `${process.cwd()}/test_storage/backups`;
+
+    beforeEach(() => {
+      fs.rmSync(backupPath, { recursive: true, force: true });
+    });
+
+    it('should back up and restore the collections', async () => {
+      const users = db.model<TestModel>('users', testSchema);
+      const orders = db.model<TestModel>('orders', testSchema);
+      await db.connect();
+      const user = await users.insertOne({ name: 'John Doe', age: 30 });
+      await orders.insertOne({ name: 'Order 1', age: 1 });
+
+      const manifest = await db.backup(backupPath);
+      assert.deepEqual(
+        manifest.collections.map((x) => [x.name, x.records]),
+        [
+          ['users', 1],
+          ['orders', 1],
+        ]
+      );
+      assert.equal(fs.existsSync(`${backupPath}/${manifest.name}/manifest.json`), true);
+
+      await users.deleteAll();
+      await orders.insertOne({ name: 'Order 2', age: 2 });
+      await db.restore(`${backupPath}/${manifest.name}`);
+
+      assert.deepEqual(users.getAllRecords(), [user]);
+      assert.equal(orders.countAll(), 1);
+      assert.equal((await users.find({ name: 'John Doe' })).length, 1);
+
+      const reopenedDb = new SkewerDatabase(testBasePath);
+      reopenedDb.model<TestModel>('users', testSchema);
+      await reopenedDb.connect();
+      assert.deepEqual(reopenedDb.model('users').getAllRecords(), [user]);
+    });
+
+    it('should wait for a running transaction', async () => {
+      const users = db.model<TestModel>('users', testSchema);
+      await db.connect();
+
+      let backup: Promise<any> | undefined;
+      await users.withTransaction(async () => {
+        await users.insertOne({ name: 'John Doe', age: 30 });
+        backup = db.backup(backupPath);
+        await users.insertOne({ name: 'Jane Doe', age: 25 });
+      });
+
+      assert.equal((await backup).collections[0].records, 2);
+    });
+
+    it('should initialize the models that are not connected', async () => {
+      db.model<TestModel>('users', testSchema);
+      await db.connect();
+      await db.model('users').insertOne({ name: 'John Doe', age: 30 });
+      await db.close();
+
+      const otherDb = new SkewerDatabase(testBasePath);
+      const users = otherDb.model<TestModel>('users', testSchema);
+      const manifest = await otherDb.backup(backupPath);
+
+      assert.equal(manifest.collections[0].records, 1);
+      assert.equal(users.countAll(), 1);
+    });
+
+    it('should throw SnapshotError if a file of the backup was changed', async () => {
+      const users = db.model<TestModel>('users', testSchema);
+      await db.connect();
+      await users.insertOne({ name: 'John Doe', age: 30 });
+      const manifest = await db.backup(backupPath);
+
+      fs.writeFileSync(`${backupPath}/${manifest.name}/users.json`, '{}');
+
+      await assert.rejects(db.restore(`${backupPath}/${manifest.name}`), /SnapshotError/);
+      assert.equal(users.countAll(), 1);
+    });
+
+    it('should throw SnapshotError if the manifest of the backup is corrupt', async () => {
+      db.model<TestModel>('users', testSchema);
+      await db.connect();
+      const manifest = await db.backup(backupPath);
+
+      fs.writeFileSync(`${backupPath}/${manifest.name}/manifest.json`, '{"name":');
+      await assert.rejects(db.restore(`${backupPath}/${manifest.name}`), /SnapshotError.*manifest.*corrupt/);
+
+      fs.writeFileSync(`${backupPath}/${manifest.name}/manifest.json`, '{}');
+      await assert.rejects(db.restore(`${backupPath}/${manifest.name}`), /SnapshotError.*manifest.*corrupt/);
+    });
+
+    it('should only keep the newest backups', async () => {
+      db.model<TestModel>('users', testSchema);
+      await db.connect();
+
+      const manifests = [];
+      for (let i = 0; i < 4; i++) {
+        manifests.push(await db.backup(backupPath, { keep: 2 }));
+      }
+
+      assert.deepEqual(
+        (await db.listBackups(backupPath)).map((x) => x.name),
+        manifests.slice(2).map((x) => x.name)
+      );
+    });
+  });
+});
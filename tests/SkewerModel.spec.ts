@@ -1,6 +1,18 @@
 import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 
-import { SkewerModel, ISkewerModel, SchemaType } from '../src';
+import { PassThrough, Readable } from 'stream';
+
+import {
+  SkewerModel,
+  ISkewerModel,
+  SchemaType,
+  ModelOptions,
+  MemoryStorageAdapter,
+  ExportOptions,
+  ImportOptions,
+} from '../src';
 
 interface TestModel extends ISkewerModel {
   name: string;
@@ -22,7 +34,7 @@ describe('SkewerModel', () => {
   beforeEach(async () => {
     model = new SkewerModel<TestModel>('testModel', testSchema, testBasePath);
     await model.initialize();
-    model.deleteAll();
+    await model.deleteAll();
   });
 
   after(async () => {
@@ -79,11 +91,11 @@ describe('SkewerModel', () => {
     assert.rejects(model.insertOne({ age: 30 } as any), /SchemaValidationError/);
   });
 
-  it('should get all records', () => {
+  it('should get all records', async () => {
     const record1 = { name: 'John Doe', age: 30, active: true };
     const record2 = { name: 'Jane Doe', age: 25, active: false };
-    model.insertOne(record1);
-    model.insertOne(record2);
+    await model.insertOne(record1);
+    await model.insertOne(record2);
     const allRecords = model.getAllRecords();
     assert.equal(allRecords.length, 2);
   });
@@ -98,17 +110,17 @@ describe('SkewerModel', () => {
   it('should find a record by key', async () => {
     const record = { name: 'John Doe', age: 30, active: true };
     const insertedRecord = await model.insertOne(record);
-    const foundRecord = model.find({ name: 'John Doe' })?.[0];
+    const foundRecord = (await model.find({ name: 'John Doe' }))?.[0];
     assert.deepEqual(foundRecord, insertedRecord);
   });
 
-  it('should find records by two keys', () => {
+  it('should find records by two keys', async () => {
     const record1 = { name: 'John Doe', age: 30, active: true };
     const record2 = { name: 'Jane Doe', age: 30, active: false };
 
-    model.insertMany([record1, record2]);
+    await model.insertMany([record1, record2]);
 
-    const foundRecords = model.find({ age: 30, active: true });
+    const foundRecords = await model.find({ age: 30, active: true });
     assert.equal(foundRecords.length, 1);
     assert.deepEqual(foundRecords[0], {
       ...record1,
@@ -118,6 +130,192 @@ describe('SkewerModel', () => {
     });
   });
 
+  it('should find records using comparison operators', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+      { name: 'Peter Pan', age: 18, active: true },
+    ]);
+
+    assert.equal((await model.find({ age: { $gt: 18 } })).length, 2);
+    assert.equal((await model.find({ age: { $gte: 18, $lt: 30 } })).length, 2);
+    assert.equal((await model.find({ age: { $lte: 25 } })).length, 2);
+    assert.equal((await model.find({ age: { $ne: 30 } })).length, 2);
+    assert.equal((await model.find({ age: { $in: [18, 30] } })).length, 2);
+    assert.equal((await model.find({ age: { $nin: [18, 30] } }))[0].name, 'Jane Doe');
+  });
+
+  it('should find records using $exists, $regex and $not', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, keyword: 'a' },
+      { name: 'Jane Doe', age: 25 },
+      { name: 'Peter Pan', age: 18 },
+    ]);
+
+    assert.equal((await model.find({ keyword: { $exists: true } })).length, 1);
+    assert.equal((await model.find({ keyword: { $exists: false } })).length, 2);
+    assert.equal((await model.find({ name: { $regex: '^j', $options: 'i' } })).length, 2);
+    assert.equal((await model.find({ name: /Pan$/ })).length, 1);
+    assert.equal((await model.find({ age: { $not: { $gt: 20 } } }))[0].name, 'Peter Pan');
+  });
+
+  it('should match missing fields with null', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, keyword: 'a' },
+      { name: 'Jane Doe', age: 25 },
+    ]);
+
+    assert.deepEqual(
+      (await model.find({ keyword: null })).map((x) => x.name),
+      ['Jane Doe']
+    );
+    assert.equal((await model.find({ keyword: { $in: [null, 'b'] } })).length, 1);
+    assert.equal((await model.find({ keyword: { $ne: null } })).length, 1);
+  });
+
+  it('should return copies of the records', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+    const [found] = await model.find({ name: 'John Doe' });
+    found.age = 31;
+    const foundOne = await model.findOne({ id: record.id });
+    (foundOne as TestModel).active = false;
+
+    assert.equal(model.findById(record.id)?.age, 30);
+    assert.equal(model.findById(record.id)?.active, true);
+  });
+
+  it('should find records using array operators', async () => {
+    const arraySchema: SchemaType = { ...testSchema, tags: { type: Array } };
+    const arrayModel = new SkewerModel<TestModel>('arrayModel', arraySchema, testBasePath);
+    await arrayModel.initialize();
+    await arrayModel.deleteAll();
+
+    await arrayModel.insertMany([
+      { name: 'John Doe', age: 30, tags: ['admin', 'staff'] },
+      { name: 'Jane Doe', age: 25, tags: ['staff'] },
+    ]);
+
+    assert.equal((await arrayModel.find({ tags: 'staff' })).length, 2);
+    assert.equal((await arrayModel.find({ tags: { $size: 1 } }))[0].name, 'Jane Doe');
+    assert.equal((await arrayModel.find({ tags: { $all: ['admin', 'staff'] } }))[0].name, 'John Doe');
+  });
+
+  it('should find records using logical operators', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+      { name: 'Peter Pan', age: 18, active: true },
+    ]);
+
+    assert.equal((await model.find({ $or: [{ age: 18 }, { active: false }] })).length, 2);
+    assert.equal((await model.find({ $and: [{ active: true }, { age: { $gt: 20 } }] }))[0].name, 'John Doe');
+    assert.equal((await model.find({ $nor: [{ age: 18 }, { active: false }] }))[0].name, 'John Doe');
+  });
+
+  it('should find records by indexed field using $in', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+    assert.deepEqual(await model.find({ name: { $in: ['John Doe', 'Nobody'] } }), [record]);
+    assert.deepEqual(await model.find({ name: { $eq: 'John Doe' }, age: 30 }), [record]);
+  });
+
+  it('should find and sort records by dotted paths of nested fields', async () => {
+    const people = await new SkewerModel<any>(
+      'people',
+      { name: { type: String }, address: { city: { type: String }, zip: { type: Number } } },
+      new MemoryStorageAdapter()
+    ).initialize();
+    await people.insertMany([
+      { name: 'John Doe', address: { city: 'Amsterdam', zip: 2000 } },
+      { name: 'Jane Doe', address: { city: 'Berlin', zip: 1000 } },
+      { name: 'Wendy Darling', address: { city: 'Amsterdam', zip: 1500 } },
+    ]);
+
+    assert.deepEqual(
+      (await people.find({ 'address.city': 'Amsterdam' }).sort({ 'address.zip': 1 })).map((x) => x.name),
+      ['Wendy Darling', 'John Doe']
+    );
+    assert.equal(people.countDocuments({ 'address.zip': { $lt: 1500 } }), 1);
+  });
+
+  it('should throw error for an unsupported query operator', async () => {
+    await assert.rejects(model.find({ age: { $foo: 1 } }).exec(), /InvalidQueryError/);
+  });
+
+  it('should sort, skip and limit query results', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+      { name: 'Peter Pan', age: 18, active: true },
+    ]);
+
+    const sorted = await model.find().sort({ age: -1 });
+    assert.deepEqual(
+      sorted.map((x) => x.age),
+      [30, 25, 18]
+    );
+
+    const page = await model.find({}).sort({ age: 1 }).skip(1).limit(1).exec();
+    assert.equal(page.length, 1);
+    assert.equal(page[0].name, 'Jane Doe');
+
+    const multiSorted = await model.find().sort({ active: 'desc', name: 'asc' });
+    assert.deepEqual(
+      multiSorted.map((x) => x.name),
+      ['John Doe', 'Peter Pan', 'Jane Doe']
+    );
+  });
+
+  it('should select fields in query results', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+    assert.deepEqual(await model.find().select(['name']), [{ id: record.id, name: 'John Doe' }]);
+    assert.deepEqual(await model.find().select('name -id'), [{ name: 'John Doe' }]);
+
+    const [excluded] = await model.find().select({ createdAt: 0, updatedAt: 0 });
+    assert.deepEqual(excluded, { id: record.id, name: 'John Doe', age: 30, active: true });
+  });
+
+  it('should select fields and find distinct values of nested fields', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, address: { city: 'Berlin', zip: '10115' } });
+    await model.insertOne({ name: 'Jane Doe', age: 25, address: { city: 'Paris' } });
+
+    assert.deepEqual(await model.find({ id: record.id }).select(['address.city']), [
+      { id: record.id, address: { city: 'Berlin' } },
+    ]);
+
+    const [excluded] = await model.find({ id: record.id }).select({ 'address.zip': 0 });
+    assert.deepEqual((excluded as any).address, { city: 'Berlin' });
+    assert.equal((model.findById(record.id) as any).address.zip, '10115');
+
+    assert.deepEqual(model.distinct('address.city').sort(), ['Berlin', 'Paris']);
+  });
+
+  it('should find one record', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+    ]);
+
+    assert.equal((await model.findOne({ active: false }))?.name, 'Jane Doe');
+    assert.equal((await model.findOne().sort({ age: -1 }))?.name, 'John Doe');
+    assert.equal(await model.findOne({ age: 99 }), undefined);
+  });
+
+  it('should count documents and find distinct values', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 30, active: false },
+      { name: 'Peter Pan', age: 18, active: true },
+    ]);
+
+    assert.equal(model.countDocuments({ age: 30 }), 2);
+    assert.equal(model.countDocuments(), 3);
+    assert.deepEqual(model.distinct('age').sort(), [18, 30]);
+    assert.deepEqual(model.distinct('name', { active: true }).sort(), ['John Doe', 'Peter Pan']);
+  });
+
   it('should update a record by id', async () => {
     const record = { name: 'John Doe', age: 30, active: true };
     const insertedRecord = await model.insertOne(record);
@@ -129,6 +327,137 @@ describe('SkewerModel', () => {
     assert.rejects(model.updateById('nonexistentId', { age: 35 }), /RecordNotFoundError/);
   });
 
+  it('should update a record by id using update operators', async () => {
+    const insertedRecord = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+    const updatedRecord = await model.updateById(insertedRecord.id, { $inc: { age: 2 }, $unset: { active: '' } });
+
+    assert.equal(updatedRecord.age, 32);
+    assert.equal(updatedRecord.active, undefined);
+    assert.equal(updatedRecord.id, insertedRecord.id);
+  });
+
+  it('should update one record matching a filter', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 30, active: false },
+    ]);
+
+    const result = await model.updateOne({ age: 30 }, { $set: { active: false } });
+    assert.deepEqual(result, { matchedCount: 1, modifiedCount: 1 });
+    assert.equal(model.countDocuments({ active: false }), 2);
+  });
+
+  it('should update many records matching a filter', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+      { name: 'Peter Pan', age: 18, active: true },
+    ]);
+
+    const result = await model.updateMany({ active: true }, { $mul: { age: 2 }, $max: { keyword: 'b' } });
+    assert.deepEqual(result, { matchedCount: 2, modifiedCount: 2 });
+    assert.deepEqual(model.distinct('age').sort(), [25, 36, 60]);
+    assert.equal(model.countDocuments({ keyword: 'b' }), 2);
+
+    const unchanged = await model.updateMany({ age: 25 }, { $min: { age: 30 } });
+    assert.deepEqual(unchanged, { matchedCount: 1, modifiedCount: 0 });
+  });
+
+  it('should update array fields using update operators', async () => {
+    const arraySchema: SchemaType = { ...testSchema, tags: { type: Array } };
+    const arrayModel = new SkewerModel<TestModel>('arrayModel', arraySchema, testBasePath);
+    await arrayModel.initialize();
+    await arrayModel.deleteAll();
+
+    const record = await arrayModel.insertOne({ name: 'John Doe', age: 30, tags: ['staff'] });
+
+    await arrayModel.updateById(record.id, { $push: { tags: { $each: ['admin', 'ops'] } } });
+    await arrayModel.updateById(record.id, { $addToSet: { tags: 'admin' } });
+    assert.deepEqual(arrayModel.findById(record.id)?.tags, ['staff', 'admin', 'ops']);
+
+    await arrayModel.updateById(record.id, { $pull: { tags: 'staff' } });
+    assert.deepEqual(arrayModel.findById(record.id)?.tags, ['admin', 'ops']);
+  });
+
+  it('should rename a field', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+    const updatedRecord = await model.updateById(record.id, { $rename: { active: 'enabled' } });
+
+    assert.equal(updatedRecord.active, undefined);
+    assert.equal(updatedRecord.enabled, true);
+  });
+
+  it('should not update any record if schema validation fails', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+    ]);
+
+    await assert.rejects(model.updateMany({}, { $set: { keyword: 'd' } }), /SchemaValidationError/);
+    assert.equal(model.countDocuments({ keyword: { $exists: true } }), 0);
+  });
+
+  it('should not update any record if the update gives two of them the same unique value', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+    ]);
+
+    await assert.rejects(model.updateMany({}, { $set: { name: 'Joe Doe' } }), /SchemaValidationError/);
+    assert.equal(model.countDocuments({ name: 'Joe Doe' }), 0);
+
+    const reopenedModel = await new SkewerModel<TestModel>('testModel', testSchema, testBasePath).initialize();
+    assert.deepEqual((await reopenedModel.find({})).map((x) => x.name).sort(), ['Jane Doe', 'John Doe']);
+  });
+
+  it('should keep the index in sync when updating an indexed field', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+    await model.updateOne({ age: 30 }, { $set: { name: 'Johnny Doe' } });
+
+    assert.equal((await model.find({ name: 'John Doe' })).length, 0);
+    assert.equal((await model.findOne({ name: 'Johnny Doe' }))?.id, record.id);
+  });
+
+  it('should index values that are names of object properties', async () => {
+    const record = await model.insertOne({ name: 'constructor', age: 30, active: true });
+    await model.insertOne({ name: '__proto__', age: 25, active: false });
+
+    assert.equal((await model.findOne({ name: 'constructor' }))?.id, record.id);
+    assert.equal((await model.find({ name: 'toString' })).length, 0);
+    assert.equal((await model.find({ name: '__proto__' })).length, 1);
+    await assert.rejects(model.insertOne({ name: 'constructor', age: 18, active: true }), /SchemaValidationError/);
+    assert.ok(model.verifyIndexes().isValid);
+
+    await model.deleteById(record.id);
+    assert.equal((await model.find({ name: 'constructor' })).length, 0);
+  });
+
+  it('should upsert a record using updateOne', async () => {
+    const result = await model.updateOne({ name: 'John Doe' }, { $set: { age: 30 } }, { upsert: true });
+
+    assert.ok(result.upsertedId);
+    const upsertedRecord = model.findById(result.upsertedId as string);
+    assert.equal(upsertedRecord?.name, 'John Doe');
+    assert.equal(upsertedRecord?.age, 30);
+
+    const updateResult = await model.updateOne({ name: 'John Doe' }, { $inc: { age: 1 } }, { upsert: true });
+    assert.deepEqual(updateResult, { matchedCount: 1, modifiedCount: 1 });
+    assert.equal(model.countAll(), 1);
+  });
+
+  it('should delete many records matching a filter', async () => {
+    await model.insertMany([
+      { name: 'John Doe', age: 30, active: true },
+      { name: 'Jane Doe', age: 25, active: false },
+      { name: 'Peter Pan', age: 18, active: true },
+    ]);
+
+    const result = await model.deleteMany({ active: true });
+    assert.deepEqual(result, { deletedCount: 2 });
+    assert.equal(model.countAll(), 1);
+    assert.equal((await model.findOne())?.name, 'Jane Doe');
+  });
+
   it('should upsert a record', async () => {
     const record = { name: 'John Doe', age: 30, active: true };
     let upsertedRecord = await model.insertOrUpdate(record, 'newId');
@@ -156,12 +485,12 @@ describe('SkewerModel', () => {
     assert.rejects(model.deleteById('nonexistentId'), /RecordNotFoundError/);
   });
 
-  it('should delete all records', () => {
+  it('should delete all records', async () => {
     const record1 = { name: 'John Doe', age: 30, active: true };
     const record2 = { name: 'Jane Doe', age: 25, active: false };
-    model.insertOne(record1);
-    model.insertOne(record2);
-    model.deleteAll();
+    await model.insertOne(record1);
+    await model.insertOne(record2);
+    await model.deleteAll();
     assert.equal(model.countAll(), 0);
   });
 
@@ -195,14 +524,1681 @@ describe('SkewerModel', () => {
     assert.equal(retrievedRecord?.age, 30); // Original value before transaction should be restored
   });
 
-  it('should validate unique constraint', () => {
+  it('should recover a committed save that was interrupted on initialize', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+    fs.writeFileSync(`${testBasePath}/testModel.json.1.tmp`, JSON.stringify({}));
+    fs.writeFileSync(`${testBasePath}/testModel.commit`, JSON.stringify([['testModel.json.1.tmp', 'testModel.json']]));
+
+    await model.initialize();
+    assert.equal(model.findById(record.id), undefined);
+    assert.equal(fs.existsSync(`${testBasePath}/testModel.commit`), false);
+  });
+
+  it('should discard an uncommitted save that was interrupted on initialize', async () => {
+    const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+    fs.writeFileSync(`${testBasePath}/testModel.json.1.tmp`, '{"trunc');
+
+    await model.initialize();
+    assert.equal(model.findById(record.id)?.name, 'John Doe');
+    assert.equal(fs.existsSync(`${testBasePath}/testModel.json.1.tmp`), false);
+  });
+
+  it('should throw FileLoadError if the data file is corrupt', async () => {
+    fs.writeFileSync(`${testBasePath}/testModel.json`, '{"trunc');
+
+    await assert.rejects(model.initialize(), /FileLoadError/);
+    await model.deleteAll();
+  });
+
+  it('should validate unique constraint', async () => {
     const record1 = { name: 'John Doe', age: 30, active: true, keyword: 'a' };
-    model.insertOne(record1);
-    assert.rejects(model.insertOne(record1), /SchemaValidationError/);
+    await model.insertOne(record1);
+    await assert.rejects(model.insertOne(record1), /SchemaValidationError/);
+  });
+
+  it('should not insert any record if one of them fails the unique constraint', async () => {
+    await model.insertOne({ name: 'John Doe', age: 30, active: true });
+    const stream = model.watch();
+    const events: Array<any> = [];
+    stream.on('change', (event) => events.push(event));
+
+    await assert.rejects(
+      model.insertMany([
+        { name: 'Jane Doe', age: 25, active: false },
+        { name: 'John Doe', age: 18, active: true },
+      ]),
+      /SchemaValidationError/
+    );
+    await assert.rejects(
+      model.insertMany([
+        { name: 'Jane Doe', age: 25, active: false },
+        { name: 'Jane Doe', age: 18, active: true },
+      ]),
+      /SchemaValidationError/
+    );
+    stream.close();
+
+    assert.equal(model.countAll(), 1);
+    assert.equal(events.length, 0);
+    const reopenedModel = await new SkewerModel<TestModel>('testModel', testSchema, testBasePath).initialize();
+    assert.equal(reopenedModel.countAll(), 1);
   });
 
   it('should validate enum constraint', () => {
     const record1 = { name: 'John Doe', age: 30, active: true, keyword: 'd' };
     assert.rejects(model.insertOne(record1), /SchemaValidationError/);
   });
+
+  describe('schema', () => {
+    const richSchema: SchemaType = {
+      name: { type: String, required: true, minLength: 2, maxLength: 20, match: /^[A-Z]/ },
+      age: { type: Number, min: 0, max: 150, default: 18 },
+      level: { type: Number, enum: [1, 2, 3] },
+      birthday: { type: Date },
+      tags: [{ type: String, enum: ['a', 'b'] }],
+      address: {
+        city: { type: String, required: true },
+        country: { type: String, default: () => 'NL' },
+      },
+      contacts: { type: [{ email: { type: String, validate: (value: string) => value.includes('@') } }] },
+      even: { type: Number, validate: { validator: (value: number) => value % 2 === 0, message: 'even number' } },
+    };
+    let richModel: SkewerModel<TestModel>;
+
+    beforeEach(async () => {
+      richModel = await new SkewerModel<TestModel>('richModel', richSchema, testBasePath).initialize();
+      await richModel.deleteAll();
+    });
+
+    it('should insert a record with nested fields, typed arrays and defaults', async () => {
+      const record = await richModel.insertOne({
+        name: 'John Doe',
+        birthday: new Date('2000-01-01'),
+        tags: ['a'],
+        address: { city: 'Amsterdam' },
+        contacts: [{ email: 'john@doe.com' }],
+        even: 2,
+      });
+
+      assert.equal(record.age, 18);
+      assert.equal(record.address.country, 'NL');
+      assert.deepEqual(record.tags, ['a']);
+    });
+
+    it('should accept an empty array for a required array field', async () => {
+      const arrayModel = await new SkewerModel<TestModel>(
+        'arrayModel',
+        { ...testSchema, tags: { type: Array, required: true } },
+        testBasePath
+      ).initialize();
+      await arrayModel.deleteAll();
+
+      const record = await arrayModel.insertOne({ name: 'John Doe', age: 30, tags: [] });
+      assert.deepEqual(record.tags, []);
+    });
+
+    it('should report all validation failures with dotted paths', async () => {
+      const error = await richModel
+        .insertOne({
+          name: 'j',
+          age: -1,
+          level: 4,
+          tags: ['a', 'c'],
+          address: {},
+          contacts: [{ email: 'john' }],
+          even: 3,
+        })
+        .catch((x) => x);
+
+      assert.equal(error.name, 'SchemaValidationError');
+      assert.deepEqual(
+        error.errors.map((x: any) => x.path),
+        ['name', 'name', 'age', 'level', 'tags.1', 'address.city', 'contacts.0.email', 'even']
+      );
+      assert.equal(error.errors[7].criteria, 'even number');
+      assert.equal(richModel.countAll(), 0);
+    });
+
+    it('should validate updates against the schema', async () => {
+      const record = await richModel.insertOne({ name: 'John Doe', address: { city: 'Amsterdam' } });
+
+      await assert.rejects(richModel.updateById(record.id, { $set: { 'address.city': 5 } }), /address.city/);
+      await assert.rejects(richModel.updateById(record.id, { $push: { tags: 'c' } }), /tags.0/);
+      assert.equal(richModel.findById(record.id)?.address.city, 'Amsterdam');
+    });
+
+    it('should keep Date fields as dates after reloading', async () => {
+      const record = await richModel.insertOne({
+        name: 'John Doe',
+        birthday: '2000-01-01T00:00:00.000Z',
+        address: { city: 'Amsterdam' },
+      });
+      assert.ok(record.birthday instanceof Date);
+
+      await richModel.initialize();
+      assert.ok(richModel.findById(record.id)?.birthday instanceof Date);
+      assert.equal(await richModel.countDocuments({ birthday: { $gt: new Date('1999-01-01') } }), 1);
+      await richModel.updateById(record.id, { age: 30 });
+    });
+  });
+
+  describe('indexes', () => {
+    it('should keep all values of an indexed field in the index', async () => {
+      const [john, jane] = await model.insertMany([
+        { name: 'John Doe', age: 30, active: true },
+        { name: 'Jane Doe', age: 25, active: false },
+      ]);
+      await model.insertOne({ name: 'Peter Pan', age: 18, active: true });
+
+      assert.deepEqual(
+        (await model.find({ name: 'John Doe' })).map((x) => x.id),
+        [john.id]
+      );
+      assert.deepEqual(
+        (await model.find({ name: 'Jane Doe' })).map((x) => x.id),
+        [jane.id]
+      );
+      assert.ok(model.verifyIndexes().isValid);
+    });
+
+    it('should clear the index when deleting all records', async () => {
+      await model.insertOne({ name: 'John Doe', age: 30, active: true });
+      await model.deleteAll();
+
+      assert.deepEqual(model.verifyIndexes(), { isValid: true, mismatches: [] });
+      await model.insertOne({ name: 'John Doe', age: 30, active: true });
+    });
+
+    it('should create a compound index and use it in find', async () => {
+      const [john] = await model.insertMany([
+        { name: 'John Doe', age: 30, active: true },
+        { name: 'Jane Doe', age: 30, active: false },
+      ]);
+
+      assert.equal(await model.createIndex(['age', 'active']), 'age_active');
+      assert.deepEqual(
+        (await model.find({ age: 30, active: { $in: [true] } })).map((x) => x.id),
+        [john.id]
+      );
+
+      const reopenedModel = await new SkewerModel<TestModel>('testModel', testSchema, testBasePath).initialize();
+      assert.deepEqual(
+        reopenedModel.getIndexes().map((x) => x.name),
+        ['name', 'age_active']
+      );
+      await reopenedModel.dropIndex('age_active');
+    });
+
+    it('should enforce a unique index created at runtime', async () => {
+      await model.insertMany([
+        { name: 'John Doe', age: 30, active: true },
+        { name: 'Jane Doe', age: 30, active: false },
+      ]);
+
+      await assert.rejects(model.createIndex('age', { unique: true }), /IndexError/);
+      await model.createIndex('active', { unique: true, sparse: true, name: 'activeUnique' });
+      await assert.rejects(model.insertOne({ name: 'Peter Pan', age: 18, active: true }), /SchemaValidationError/);
+      await model.insertOne({ name: 'Peter Pan', age: 18 });
+
+      await model.dropIndex('activeUnique');
+      await assert.rejects(model.dropIndex('activeUnique'), /IndexError/);
+      await assert.rejects(model.dropIndex('name'), /IndexError/);
+    });
+
+    it('should backfill an index added to the schema', async () => {
+      const [record] = await model.insertMany([{ name: 'John Doe', age: 30, active: true }]);
+      fs.writeFileSync(`${testBasePath}/testModel_index.json`, JSON.stringify({ name: { 'Jane Doe': [record.id] } }));
+
+      const indexedModel = await new SkewerModel<TestModel>(
+        'testModel',
+        { ...testSchema, age: { type: Number, required: true, index: true } },
+        testBasePath
+      ).initialize();
+      assert.deepEqual(indexedModel.verifyIndexes().mismatches, [
+        { index: 'name', key: 'John Doe', missingIds: [record.id], extraIds: [] },
+        { index: 'name', key: 'Jane Doe', missingIds: [], extraIds: [record.id] },
+      ]);
+      assert.deepEqual(
+        (await indexedModel.find({ age: 30 })).map((x) => x.id),
+        [record.id]
+      );
+
+      await indexedModel.rebuildIndexes();
+      assert.ok(indexedModel.verifyIndexes().isValid);
+    });
+
+    it('should enforce a unique index on a nested field and find through it', async () => {
+      const people = await new SkewerModel<any>(
+        'people',
+        { name: { type: String }, address: { city: { type: String, unique: true } } },
+        new MemoryStorageAdapter()
+      ).initialize();
+      const record = await people.insertOne({ name: 'John Doe', address: { city: 'Amsterdam' } });
+
+      assert.deepEqual(
+        people.getIndexes().map((x) => x.name),
+        ['address.city']
+      );
+      await assert.rejects(
+        people.insertOne({ name: 'Jane Doe', address: { city: 'Amsterdam' } }),
+        /SchemaValidationError/
+      );
+      const other = await people.insertOne({ name: 'Jane Doe', address: { city: 'Berlin' } });
+      await assert.rejects(people.updateById(other.id, { $set: { 'address.city': 'Amsterdam' } }), /address.city/);
+
+      assert.deepEqual(
+        (await people.find({ 'address.city': 'Amsterdam' })).map((x) => x.id),
+        [record.id]
+      );
+      assert.equal(people.countAll(), 2);
+      assert.ok(people.verifyIndexes().isValid);
+    });
+
+    it('should serve range queries and sorting from a sorted index', async () => {
+      const records = await model.insertMany([
+        { name: 'John Doe', age: 30, active: true },
+        { name: 'Jane Doe', age: 25, active: false },
+        { name: 'Peter Pan', age: 12, active: true },
+        { name: 'Wendy Darling', age: 25, active: true },
+      ]);
+
+      assert.equal(await model.createIndex('age', { sorted: true, name: 'ageSorted' }), 'ageSorted');
+      await assert.rejects(model.createIndex(['age', 'active'], { sorted: true }), /IndexError/);
+
+      assert.deepEqual(
+        (await model.find({ age: { $gte: 25, $lt: 30 } }).sort({ name: 1 })).map((x) => x.name),
+        ['Jane Doe', 'Wendy Darling']
+      );
+      assert.deepEqual(
+        (await model.find({ age: { $gt: 12 } }).sort({ age: -1, name: 1 }).limit(2)).map((x) => x.name),
+        ['John Doe', 'Jane Doe']
+      );
+      assert.deepEqual(
+        (await model.find({ active: true }).sort({ age: 1 }).skip(1).limit(1)).map((x) => x.name),
+        ['Wendy Darling']
+      );
+      assert.equal((await model.findOne({}).sort({ age: 'desc' }))?.name, 'John Doe');
+
+      await model.updateById(records[2].id, { age: 40 });
+      await model.deleteById(records[0].id);
+      assert.equal((await model.findOne({}).sort({ age: -1 }))?.name, 'Peter Pan');
+      assert.ok(model.verifyIndexes().isValid);
+
+      const reopenedModel = await new SkewerModel<TestModel>('testModel', testSchema, testBasePath).initialize();
+      assert.ok(reopenedModel.verifyIndexes().isValid);
+      assert.deepEqual(
+        (await reopenedModel.find({ age: { $lte: 25 } })).map((x) => x.name).sort(),
+        ['Jane Doe', 'Wendy Darling']
+      );
+      await reopenedModel.dropIndex('ageSorted');
+    });
+
+    it('should keep a sorted schema index on a Date field', async () => {
+      const eventModel = await new SkewerModel<TestModel & { happenedAt: Date }>(
+        'eventModel',
+        { ...testSchema, happenedAt: { type: Date, index: 'sorted' } },
+        new MemoryStorageAdapter()
+      ).initialize();
+      await eventModel.insertMany(
+        [3, 1, 2].map((day) => ({
+          name: `Event ${day}`,
+          age: day,
+          active: true,
+          happenedAt: new Date(`2024-01-0${day}T00:00:00.000Z`),
+        }))
+      );
+      await eventModel.insertOne({ name: 'Undated', age: 0, active: true });
+
+      assert.deepEqual(
+        (await eventModel.find({ happenedAt: { $gte: new Date('2024-01-02') } })).map((x) => x.name).sort(),
+        ['Event 2', 'Event 3']
+      );
+      assert.deepEqual(
+        (await eventModel.find({}).sort({ happenedAt: 1 }).limit(2)).map((x) => x.name),
+        ['Undated', 'Event 1']
+      );
+      assert.deepEqual(
+        (await eventModel.find({}).sort({ happenedAt: -1 }).limit(2)).map((x) => x.name),
+        ['Event 3', 'Event 2']
+      );
+
+      await eventModel.createIndex('createdAt', { sorted: true });
+      assert.equal((await eventModel.findOne({}).sort({ createdAt: -1 }))?.name, 'Undated');
+      assert.ok(eventModel.verifyIndexes().isValid);
+    });
+    it('should compare dates with the ISO strings the records hold them as', async () => {
+      const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+      const createdAt = new Date(record.createdAt as string);
+
+      assert.equal((await model.find({ createdAt: { $gte: createdAt } })).length, 1);
+      assert.equal((await model.find({ createdAt: { $gt: createdAt } })).length, 0);
+
+      // fields without a schema type keep dates as ISO strings
+      const eventModel = await new SkewerModel<any>(
+        'eventModel',
+        { name: { type: String } },
+        new MemoryStorageAdapter()
+      ).initialize();
+      await eventModel.insertMany(
+        [3, 1, 2].map((day) => ({ name: `Event ${day}`, happenedAt: `2024-01-0${day}T00:00:00.000Z` }))
+      );
+      await eventModel.insertOne({ name: 'Event 4', happenedAt: '2024-01-04' });
+      const findNames = async () =>
+        (
+          await eventModel
+            .find({ happenedAt: { $gte: new Date('2024-01-02') } })
+            .sort({ happenedAt: 1 })
+            .limit(1)
+        ).map((x) => x.name);
+
+      assert.equal(eventModel.countDocuments({ happenedAt: { $gte: new Date('2024-01-02') } }), 3);
+      assert.equal(eventModel.countDocuments({ happenedAt: { $lt: new Date('2024-01-02') } }), 1);
+      assert.equal(eventModel.countDocuments({ happenedAt: new Date('2024-01-04') }), 1);
+      assert.deepEqual(await findNames(), ['Event 2']);
+
+      await eventModel.createIndex('happenedAt', { sorted: true });
+      assert.equal(eventModel.countDocuments({ happenedAt: { $gte: new Date('2024-01-02') } }), 3);
+      assert.equal(eventModel.countDocuments({ happenedAt: { $gt: new Date('2024-01-03') } }), 1);
+      assert.equal(eventModel.countDocuments({ happenedAt: new Date('2024-01-04') }), 1);
+      assert.deepEqual(await findNames(), ['Event 2']);
+    });
+  });
+
+  describe('text search', () => {
+    const noteSchema: SchemaType = {
+      title: { type: String, required: true, text: true },
+      body: { type: String, text: true },
+      tags: { type: [{ type: String }], text: true },
+    };
+    let noteModel: SkewerModel<any>;
+
+    beforeEach(async () => {
+      noteModel = await new SkewerModel<any>('noteModel', noteSchema, testBasePath).initialize();
+      await noteModel.deleteAll();
+    });
+
+    it('should rank the records by relevance', async () => {
+      const [shopping, meeting, notes] = await noteModel.insertMany([
+        { title: 'Shopping list', body: 'Buy milk, eggs and bread' },
+        { title: 'Meeting notes', body: 'Discussed the roadmap for the next release' },
+        { title: 'Notes on notes', body: 'How I take notes', tags: ['writing'] },
+      ]);
+
+      const results = noteModel.search('NOTE');
+      assert.deepEqual(
+        results.map((x) => x.record.id),
+        [notes.id, meeting.id]
+      );
+      assert.ok(results[0].score > results[1].score);
+
+      assert.deepEqual(
+        noteModel.search('the milk', { fields: ['body'] }).map((x) => x.record.id),
+        [shopping.id]
+      );
+      assert.deepEqual(noteModel.search('the and of'), []);
+      assert.equal(noteModel.search('notes writing', { limit: 1 })[0].record.id, notes.id);
+      assert.throws(() => noteModel.search('notes', { fields: ['createdAt'] }), /IndexError/);
+    });
+
+    it('should keep the text index up to date and persist it', async () => {
+      const note = await noteModel.insertOne({ title: 'Draft', body: 'Ideas for the garden' });
+
+      await noteModel.updateById(note.id, { body: 'Ideas for the kitchen' });
+      assert.deepEqual(noteModel.search('garden'), []);
+      assert.equal(noteModel.search('kitchens').length, 1);
+
+      const reopenedModel = await new SkewerModel<any>('noteModel', noteSchema, testBasePath).initialize();
+      assert.equal(reopenedModel.search('kitchen')[0].record.id, note.id);
+      assert.ok(reopenedModel.verifyIndexes().isValid);
+
+      await reopenedModel.deleteById(note.id);
+      assert.deepEqual(reopenedModel.search('kitchen'), []);
+      assert.ok(reopenedModel.verifyIndexes().isValid);
+    });
+
+    it('should index words that are names of object properties', async () => {
+      const note = await noteModel.insertOne({ title: 'The constructor', body: 'Notes on the constructor' });
+
+      assert.equal(noteModel.search('constructor')[0].record.id, note.id);
+      assert.deepEqual(Object.keys(Object), []);
+      assert.ok(noteModel.verifyIndexes().isValid);
+
+      await noteModel.deleteById(note.id);
+      assert.deepEqual(noteModel.search('constructor'), []);
+    });
+
+    it('should create a text index at runtime', async () => {
+      const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      assert.equal(await model.createIndex('name', { text: true }), 'name_text');
+      await assert.rejects(model.createIndex(['name', 'age'], { text: true }), /IndexError/);
+      assert.equal(model.search('john')[0].record.id, record.id);
+      assert.equal(await model.countDocuments({ name: 'John Doe' }), 1);
+
+      await model.dropIndex('name_text');
+    });
+  });
+
+  describe('aggregate', () => {
+    let orderModel: SkewerModel<any>;
+    let customerModel: SkewerModel<any>;
+
+    beforeEach(async () => {
+      const storage = new MemoryStorageAdapter();
+      customerModel = await new SkewerModel<any>(
+        'customers',
+        { name: { type: String, required: true }, city: { type: String, index: true } },
+        storage
+      ).initialize();
+      orderModel = await new SkewerModel<any>(
+        'orders',
+        { customerId: { type: String, index: true }, total: { type: Number }, items: { type: Array } },
+        storage
+      ).initialize();
+
+      await customerModel.insertMany([
+        { id: 'c1', name: 'John Doe', city: 'Amsterdam' },
+        { id: 'c2', name: 'Jane Doe', city: 'Berlin' },
+      ]);
+      await orderModel.insertMany([
+        { customerId: 'c1', total: 10, items: ['apple', 'pear'] },
+        { customerId: 'c1', total: 30, items: ['apple'] },
+        { customerId: 'c2', total: 5, items: [] },
+      ]);
+    });
+
+    it('should group, sort and limit the records', async () => {
+      const results = await orderModel.aggregate<{ _id: string; count: number; revenue: number }>([
+        { $match: { total: { $gte: 5 } } },
+        {
+          $group: {
+            _id: '$customerId',
+            count: { $count: {} },
+            revenue: { $sum: '$total' },
+            average: { $avg: '$total' },
+            smallest: { $min: '$total' },
+            largest: { $max: '$total' },
+            totals: { $push: '$total' },
+          },
+        },
+        { $sort: { revenue: -1 } },
+        { $limit: 1 },
+      ]);
+
+      assert.deepEqual(results, [
+        { _id: 'c1', count: 2, revenue: 40, average: 20, smallest: 10, largest: 30, totals: [10, 30] },
+      ]);
+      assert.deepEqual(await orderModel.aggregate([{ $group: { _id: null, total: { $sum: 1 } } }]), [
+        { _id: null, total: 3 },
+      ]);
+    });
+
+    it('should unwind arrays and project fields', async () => {
+      const results = await orderModel.aggregate([
+        { $unwind: '$items' },
+        { $group: { _id: '$items', orders: { $sum: 1 } } },
+        { $project: { id: 0, item: '$_id', orders: 1 } },
+        { $sort: { item: 1 } },
+      ]);
+
+      assert.deepEqual(results, [
+        { item: 'apple', orders: 2 },
+        { item: 'pear', orders: 1 },
+      ]);
+      assert.equal(
+        (await orderModel.aggregate([{ $unwind: { path: 'items', preserveNullAndEmptyArrays: true } }])).length,
+        4
+      );
+      assert.deepEqual(
+        orderModel.getAllRecords().map((x) => x.items),
+        [['apple', 'pear'], ['apple'], []]
+      );
+    });
+
+    it('should look up the records of another model', async () => {
+      const results = await customerModel.aggregate([
+        { $lookup: { from: orderModel, localField: 'id', foreignField: 'customerId', as: 'orders' } },
+        { $project: { name: 1, orderCount: '$orders.length' } },
+        { $skip: 1 },
+      ]);
+
+      assert.deepEqual(results, [{ id: 'c2', name: 'Jane Doe', orderCount: 1 }]);
+      assert.equal(customerModel.findById('c1')?.orders, undefined);
+    });
+
+    it('should return copies of the records', async () => {
+      const [order] = await orderModel.aggregate([{ $match: { total: 30 } }, { $limit: 1 }]);
+      order.total = 0;
+      order.items.push('plum');
+
+      const [grouped] = await orderModel.aggregate([
+        { $match: { total: 10 } },
+        { $group: { _id: null, items: { $push: '$items' } } },
+      ]);
+      grouped.items[0].push('plum');
+
+      assert.deepEqual(
+        orderModel.getAllRecords().map((x) => [x.total, x.items]),
+        [
+          [10, ['apple', 'pear']],
+          [30, ['apple']],
+          [5, []],
+        ]
+      );
+    });
+
+    it('should reject unsupported stages and accumulators', async () => {
+      await assert.rejects(orderModel.aggregate([{ $out: 'x' } as any]), /InvalidQueryError/);
+      await assert.rejects(orderModel.aggregate([{ $group: { _id: null, x: { $first: '$total' } } }]), /\$first/);
+      await assert.rejects(orderModel.aggregate([{ $match: { total: { $foo: 1 } } }]), /InvalidQueryError/);
+    });
+  });
+
+  describe('hooks', () => {
+    let hookModel: SkewerModel<any>;
+
+    beforeEach(async () => {
+      hookModel = await new SkewerModel<any>(
+        'hookModel',
+        { email: { type: String, required: true, unique: true, match: /^[a-z@.]+$/ }, password: { type: String } },
+        new MemoryStorageAdapter()
+      ).initialize();
+    });
+
+    it('should run the hooks in order around validation and saving', async () => {
+      const calls: Array<string> = [];
+      hookModel
+        .pre('validate', async (record) => {
+          calls.push('pre validate');
+          record.email = record.email.trim().toLowerCase();
+        })
+        .post('validate', () => {
+          calls.push('post validate');
+        })
+        .pre('save', async (record) => {
+          calls.push('pre save');
+          record.password = `hashed:${record.password}`;
+        })
+        .post('save', (record) => {
+          calls.push(`post save ${hookModel.findById(record.id)?.email}`);
+        });
+
+      const record = await hookModel.insertOne({ email: ' John@Example.COM ', password: 'secret' });
+
+      assert.deepEqual(calls, ['pre validate', 'post validate', 'pre save', 'post save john@example.com']);
+      assert.equal(record.password, 'hashed:secret');
+    });
+
+    it('should abort a write when a pre hook throws', async () => {
+      hookModel.pre('save', (record) => {
+        if (record.email === 'blocked@example.com') throw new Error('blocked');
+      });
+      hookModel.pre('delete', () => {
+        throw new Error('protected');
+      });
+
+      await assert.rejects(hookModel.insertOne({ email: 'blocked@example.com' }), /blocked/);
+      await assert.rejects(hookModel.insertMany([{ email: 'a@b.c' }, { email: 'blocked@example.com' }]), /blocked/);
+      assert.equal(hookModel.countAll(), 0);
+
+      const record = await hookModel.insertOne({ email: 'john@example.com' });
+      await assert.rejects(hookModel.deleteById(record.id), /protected/);
+      await assert.rejects(hookModel.deleteAll(), /protected/);
+      assert.equal(hookModel.countAll(), 1);
+    });
+
+    it('should run the update and delete hooks for every record', async () => {
+      const updates: Array<string> = [];
+      const deletes: Array<string> = [];
+      hookModel
+        .pre('update', (record, previousRecord) => {
+          record.email = record.email.toLowerCase();
+          updates.push(`${previousRecord?.email} -> ${record.email}`);
+        })
+        .post('delete', (record) => {
+          deletes.push(record.email);
+        });
+
+      const [john] = await hookModel.insertMany([{ email: 'john@example.com' }, { email: 'jane@example.com' }]);
+      await hookModel.updateById(john.id, { email: 'JOHN@doe.com' });
+      await hookModel.updateMany({}, { $set: { password: 'x' } });
+      assert.equal(hookModel.findById(john.id)?.email, 'john@doe.com');
+      assert.deepEqual(updates, [
+        'john@example.com -> john@doe.com',
+        'john@doe.com -> john@doe.com',
+        'jane@example.com -> jane@example.com',
+      ]);
+
+      await hookModel.deleteMany({ email: 'jane@example.com' });
+      await hookModel.deleteAll();
+      assert.deepEqual(deletes, ['jane@example.com', 'john@doe.com']);
+    });
+
+    it('should validate the record changed by the hooks', async () => {
+      hookModel.pre('save', (record) => {
+        record.email = 'INVALID';
+      });
+
+      await assert.rejects(hookModel.insertOne({ email: 'john@example.com' }), /SchemaValidationError/);
+      assert.equal(hookModel.countAll(), 0);
+    });
+  });
+
+  describe('migrations', () => {
+    const migrationSchema: SchemaType = {
+      fullName: { type: String, required: true, index: true },
+      age: { type: Number, required: true },
+      active: { type: Boolean, default: true },
+    };
+    const migrations = [
+      {
+        from: 1,
+        to: 2,
+        up: (record: any) => {
+          record.fullName = record.name;
+          delete record.name;
+        },
+      },
+      { from: 2, to: 3, up: (record: any) => ({ ...record, age: record.age + 1 }) },
+    ];
+
+    let legacyModel: SkewerModel<TestModel>;
+
+    beforeEach(async () => {
+      legacyModel = new SkewerModel<TestModel>('legacyModel', testSchema, testBasePath);
+      await legacyModel.drop();
+      await legacyModel.initialize();
+      await legacyModel.insertMany([
+        { name: 'John Doe', age: 30, active: true },
+        { name: 'Jane Doe', age: 25 },
+      ]);
+    });
+
+    it('should start a collection at version 1', () => {
+      assert.equal(legacyModel.getVersion(), 1);
+    });
+
+    it('should run the pending migrations on initialize', async () => {
+      const migratedModel = await new SkewerModel<TestModel>('legacyModel', migrationSchema, testBasePath, {
+        version: 3,
+        migrations,
+      }).initialize();
+
+      assert.equal(migratedModel.getVersion(), 3);
+      assert.deepEqual(
+        (await migratedModel.find({ fullName: 'Jane Doe' })).map((x) => [x.age, x.active, x.name]),
+        [[26, true, undefined]]
+      );
+
+      const reopenedModel = await new SkewerModel<TestModel>('legacyModel', migrationSchema, testBasePath, {
+        version: 3,
+        migrations,
+      }).initialize();
+      assert.equal(reopenedModel.getVersion(), 3);
+      assert.equal((await reopenedModel.findOne({ fullName: 'John Doe' }))?.age, 31);
+    });
+
+    it('should report the changes of a dry run without applying them', async () => {
+      const migratedModel = await new SkewerModel<TestModel>('legacyModel', migrationSchema, testBasePath, {
+        version: 2,
+        migrations,
+      }).initialize({ migrate: false });
+
+      const report = await migratedModel.migrate({ dryRun: true });
+
+      assert.deepEqual(report.migrations, [{ from: 1, to: 2 }]);
+      assert.equal(report.changes.length, 2);
+      assert.deepEqual(report.errors, []);
+      assert.equal(migratedModel.getVersion(), 1);
+      assert.equal(await migratedModel.countDocuments({ fullName: { $exists: true } }), 0);
+    });
+
+    it('should not migrate records that fail the new schema', async () => {
+      const brokenModel = new SkewerModel<TestModel>('legacyModel', migrationSchema, testBasePath, {
+        version: 2,
+        migrations: [{ from: 1, to: 2, up: (record: any) => record }],
+      });
+
+      await assert.rejects(brokenModel.initialize(), /fullName/);
+      assert.equal((await legacyModel.initialize()).getVersion(), 1);
+    });
+
+    it('should throw MigrationError if a migration is missing', async () => {
+      const brokenModel = new SkewerModel<TestModel>('legacyModel', migrationSchema, testBasePath, {
+        version: 3,
+        migrations: [migrations[1]],
+      });
+
+      await assert.rejects(brokenModel.initialize(), /MigrationError/);
+    });
+  });
+
+  describe('change streams', () => {
+    it('should emit the changes once they are saved', async () => {
+      const stream = model.watch();
+      const events: Array<any> = [];
+      stream.on('change', (event) => events.push(event));
+
+      const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+      await model.updateById(record.id, { $set: { age: 31 }, $unset: { active: '' } });
+      await model.deleteById(record.id);
+
+      assert.deepEqual(
+        events.map((x) => [x.operationType, x.id]),
+        [
+          ['insert', record.id],
+          ['update', record.id],
+          ['delete', record.id],
+        ]
+      );
+      assert.equal(events[0].document.name, 'John Doe');
+      assert.equal(events[1].previousDocument.age, 30);
+      assert.equal(events[1].document.age, 31);
+      assert.equal(events[1].updatedFields.age, 31);
+      assert.deepEqual(events[1].removedFields, ['active']);
+      assert.equal(events[2].document, undefined);
+      assert.equal(events[2].previousDocument.age, 31);
+
+      stream.close();
+      await model.insertOne({ name: 'Jane Doe', age: 25, active: false });
+      assert.equal(events.length, 3);
+    });
+
+    it('should only emit the changes of committed transactions', async () => {
+      const stream = model.watch({ age: { $gte: 18 } });
+      const events: Array<any> = [];
+      stream.on('change', (event) => events.push(event));
+
+      await assert.rejects(
+        model.withTransaction(async () => {
+          await model.insertOne({ name: 'John Doe', age: 30, active: true });
+          throw new Error('failed');
+        }),
+        /failed/
+      );
+      await model.withTransaction(async () => {
+        await model.insertOne({ name: 'Jane Doe', age: 25, active: false });
+        await assert.rejects(
+          model.withTransaction(async () => {
+            await model.insertOne({ name: 'Peter Pan', age: 40 });
+            throw new Error('savepoint');
+          }),
+          /savepoint/
+        );
+        await model.insertOne({ name: 'Wendy Darling', age: 12 });
+        assert.equal(events.length, 0);
+      });
+
+      assert.deepEqual(
+        events.map((x) => x.document.name),
+        ['Jane Doe']
+      );
+      stream.close();
+    });
+
+    it('should be readable as an async iterator', async () => {
+      const stream = model.watch();
+
+      await model.insertMany([
+        { name: 'John Doe', age: 30, active: true },
+        { name: 'Jane Doe', age: 25, active: false },
+      ]);
+      setTimeout(() => model.drop(), 0);
+
+      const operations: Array<string> = [];
+      for await (const event of stream) {
+        operations.push(`${event.operationType} ${event.document?.name ?? ''}`.trim());
+        if (event.operationType === 'drop') break;
+      }
+
+      assert.deepEqual(operations, ['insert John Doe', 'insert Jane Doe', 'drop']);
+      await model.initialize();
+    });
+  });
+
+  describe('transactions', () => {
+    it('should save the changes of a transaction callback when it resolves', async () => {
+      const result = await model.withTransaction(async () => {
+        await model.insertOne({ name: 'John Doe', age: 30, active: true });
+        await model.insertOne({ name: 'Jane Doe', age: 25, active: false });
+        return 'done';
+      });
+
+      assert.equal(result, 'done');
+      await model.initialize();
+      assert.equal(model.countAll(), 2);
+    });
+
+    it('should roll back the changes of a transaction callback that throws', async () => {
+      const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await assert.rejects(
+        model.withTransaction(async () => {
+          await model.updateById(record.id, { age: 35 });
+          await model.insertOne({ name: 'Jane Doe', age: 25, active: false });
+          throw new Error('failed');
+        }),
+        /failed/
+      );
+
+      assert.equal(model.findById(record.id)?.age, 30);
+      assert.deepEqual(await model.find({ name: 'Jane Doe' }), []);
+      await model.initialize();
+      assert.equal(model.countAll(), 1);
+    });
+
+    it('should roll back only the changes of a failed savepoint', async () => {
+      await model.withTransaction(async (transaction) => {
+        await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+        await assert.rejects(
+          transaction.savepoint(async () => {
+            await model.insertOne({ name: 'Jane Doe', age: 25, active: false });
+            throw new Error('failed');
+          })
+        );
+        await assert.rejects(
+          model.withTransaction(async () => {
+            await model.insertOne({ name: 'Peter Pan', age: 18, active: true });
+            throw new Error('failed');
+          })
+        );
+      });
+
+      await model.initialize();
+      assert.deepEqual(
+        model.getAllRecords().map((x) => x.name),
+        ['John Doe']
+      );
+    });
+
+    it('should make writes from outside of a transaction wait until it is finished', async () => {
+      let releaseTransaction: () => void = () => undefined;
+      const released = new Promise<void>((resolve) => (releaseTransaction = resolve));
+
+      const transaction = model.withTransaction(async () => {
+        await model.insertOne({ name: 'John Doe', age: 30, active: true });
+        await released;
+        throw new Error('failed');
+      });
+      const outsideWrite = model.insertOne({ name: 'Jane Doe', age: 25, active: false });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.equal(model.countAll(), 1);
+
+      releaseTransaction();
+      await assert.rejects(transaction, /failed/);
+      await outsideWrite;
+
+      assert.deepEqual(
+        model.getAllRecords().map((x) => x.name),
+        ['Jane Doe']
+      );
+    });
+
+    it('should commit a transaction over several models atomically', async () => {
+      const otherModel = await new SkewerModel<TestModel>('otherModel', testSchema, testBasePath).initialize();
+      await otherModel.deleteAll();
+
+      await SkewerModel.withTransaction([model, otherModel], async () => {
+        await model.insertOne({ name: 'John Doe', age: 30, active: true });
+        await otherModel.insertOne({ name: 'Jane Doe', age: 25, active: false });
+      });
+
+      await model.initialize();
+      await otherModel.initialize();
+      assert.equal(model.countAll(), 1);
+      assert.equal(otherModel.countAll(), 1);
+      assert.deepEqual(
+        fs.readdirSync(testBasePath).filter((x) => x.endsWith('.commit') || x.endsWith('.tmp')),
+        []
+      );
+    });
+
+    it('should throw TransactionError for models with different storages', async () => {
+      const memoryModel = await new SkewerModel<TestModel>(
+        'memoryModel',
+        testSchema,
+        new MemoryStorageAdapter()
+      ).initialize();
+
+      await assert.rejects(
+        SkewerModel.withTransaction([model, memoryModel], async () => undefined),
+        /TransactionError/
+      );
+    });
+
+    it('should throw TransactionError when opening a transaction twice', () => {
+      model.openTransaction();
+      assert.throws(() => model.openTransaction(), /TransactionError/);
+      model.abortTransaction();
+    });
+
+    it('should throw TransactionError when compacting or migrating inside of a transaction', async () => {
+      model.openTransaction();
+      await model.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await assert.rejects(model.compact(), /TransactionError/);
+      await assert.rejects(model.migrate(), /TransactionError/);
+      model.abortTransaction();
+
+      const reopenedModel = await new SkewerModel<TestModel>('testModel', testSchema, testBasePath).initialize();
+      assert.equal(reopenedModel.countAll(), 0);
+    });
+  });
+
+  describe('journal mode', () => {
+    let journalModel: SkewerModel<TestModel>;
+    const journalPath = `${testBasePath}/journalModel_journal.ndjson`;
+
+    const openJournalModel = (options: ModelOptions = { journal: true }) =>
+      new SkewerModel<TestModel>('journalModel', testSchema, testBasePath, options).initialize();
+
+    beforeEach(async () => {
+      journalModel = await openJournalModel();
+      await journalModel.deleteAll();
+      await journalModel.compact();
+    });
+
+    it('should append changes to the journal instead of rewriting the collection', async () => {
+      const record = await journalModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      await journalModel.updateById(record.id, { age: 31 });
+
+      assert.equal(fs.readFileSync(`${testBasePath}/journalModel.json`, 'utf-8'), '{}');
+      assert.equal(fs.readFileSync(journalPath, 'utf-8').trim().split('\n').length, 2);
+    });
+
+    it('should rebuild the state by replaying the journal on initialize', async () => {
+      const record = await journalModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      const deletedRecord = await journalModel.insertOne({ name: 'Jane Doe', age: 25, active: false });
+      await journalModel.updateById(record.id, { age: 31 });
+      await journalModel.deleteById(deletedRecord.id);
+
+      const reopenedModel = await openJournalModel();
+      assert.equal(reopenedModel.countAll(), 1);
+      assert.equal(reopenedModel.findById(record.id)?.age, 31);
+      assert.equal(reopenedModel.findById(deletedRecord.id), undefined);
+      assert.equal((await reopenedModel.findOne({ name: 'John Doe' }))?.id, record.id);
+      assert.ok(reopenedModel.verifyIndexes().isValid);
+    });
+
+    it('should fold the journal into the snapshot on compact', async () => {
+      const record = await journalModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      await journalModel.compact();
+
+      assert.equal(fs.readFileSync(journalPath, 'utf-8'), '');
+      assert.equal(JSON.parse(fs.readFileSync(`${testBasePath}/journalModel.json`, 'utf-8'))[record.id].age, 30);
+      assert.equal((await openJournalModel()).findById(record.id)?.age, 30);
+    });
+
+    it('should compact automatically once the journal reaches the compact size', async () => {
+      journalModel = await openJournalModel({ journal: { compactSize: 500 } });
+
+      for (let i = 0; i < 5; i++) {
+        await journalModel.insertOne({ name: `John Doe ${i}`, age: 30 });
+      }
+
+      assert.ok(fs.readFileSync(journalPath, 'utf-8').length < 500);
+      assert.equal((await openJournalModel()).countAll(), 5);
+    });
+
+    it('should discard a partially written last journal entry', async () => {
+      const record = await journalModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      fs.appendFileSync(journalPath, '{"op":"put","id":"x","rec');
+
+      const reopenedModel = await openJournalModel();
+      assert.equal(reopenedModel.countAll(), 1);
+      assert.ok(reopenedModel.findById(record.id));
+      assert.ok(fs.readFileSync(journalPath, 'utf-8').endsWith('\n'));
+    });
+
+    it('should fold a leftover journal into the snapshot when opened without journal mode', async () => {
+      const record = await journalModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      const snapshotModel = await openJournalModel({});
+      assert.ok(snapshotModel.findById(record.id));
+      assert.equal(fs.readFileSync(journalPath, 'utf-8'), '');
+    });
+  });
+
+  describe('memory storage', () => {
+    it('should keep records in memory without touching the disk', async () => {
+      const storage = new MemoryStorageAdapter();
+      const memoryModel = await new SkewerModel<TestModel>('memoryModel', testSchema, storage).initialize();
+
+      const record = await memoryModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      assert.equal(fs.existsSync(`${testBasePath}/memoryModel.json`), false);
+
+      const reopenedModel = await new SkewerModel<TestModel>('memoryModel', testSchema, storage).initialize();
+      assert.deepEqual(reopenedModel.findById(record.id), record);
+    });
+
+    it('should support journal mode', async () => {
+      const storage = new MemoryStorageAdapter();
+      const memoryModel = await new SkewerModel<TestModel>('memoryModel', testSchema, storage, {
+        journal: true,
+      }).initialize();
+
+      const record = await memoryModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      await memoryModel.updateById(record.id, { age: 31 });
+      assert.equal(await storage.read('memoryModel.json'), '{}');
+
+      const reopenedModel = await new SkewerModel<TestModel>('memoryModel', testSchema, storage, {
+        journal: true,
+      }).initialize();
+      assert.equal(reopenedModel.findById(record.id)?.age, 31);
+    });
+  });
+
+  describe('multiple processes', () => {
+    // two models on the same storage stand in for two processes that open the same collection
+    let storage: MemoryStorageAdapter;
+    let firstModel: SkewerModel<TestModel>;
+    let secondModel: SkewerModel<TestModel>;
+
+    beforeEach(async () => {
+      storage = new MemoryStorageAdapter();
+      firstModel = await new SkewerModel<TestModel>('sharedModel', testSchema, storage).initialize();
+      secondModel = await new SkewerModel<TestModel>('sharedModel', testSchema, storage).initialize();
+    });
+
+    it('should fail a write if another process changed the collection', async () => {
+      await firstModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await assert.rejects(secondModel.insertOne({ name: 'Jane Doe', age: 25, active: true }), /ConflictError/);
+      assert.equal(Object.keys(JSON.parse(await storage.read('sharedModel.json'))).length, 1);
+    });
+
+    it('should roll back a transaction whose commit fails', async () => {
+      const record = await firstModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      await secondModel.reload();
+      await secondModel.insertOne({ name: 'Jane Doe', age: 25, active: true });
+      const files = await storage.read('sharedModel.json');
+
+      await assert.rejects(
+        firstModel.withTransaction(async () => {
+          await firstModel.updateById(record.id, { age: 31 });
+          await firstModel.insertOne({ name: 'Max Doe', age: 40, active: true });
+        }),
+        /ConflictError/
+      );
+
+      assert.equal(firstModel.findById(record.id)?.age, 30);
+      assert.deepEqual(await firstModel.find({ name: 'Max Doe' }), []);
+      assert.equal(await storage.read('sharedModel.json'), files);
+
+      await firstModel.reload();
+      await firstModel.insertOne({ name: 'Ann Doe', age: 20, active: true });
+      const records = Object.values(JSON.parse(await storage.read('sharedModel.json'))) as Array<TestModel>;
+      assert.deepEqual(records.map((x) => x.name).sort(), ['Ann Doe', 'Jane Doe', 'John Doe']);
+      assert.equal(records.find((x) => x.id === record.id)?.age, 30);
+    });
+
+    it('should roll back a transaction over several models whose commit fails', async () => {
+      const otherModel = await new SkewerModel<TestModel>('otherModel', testSchema, storage).initialize();
+      await secondModel.insertOne({ name: 'Jane Doe', age: 25, active: true });
+
+      await assert.rejects(
+        SkewerModel.withTransaction([firstModel, otherModel], async () => {
+          await firstModel.insertOne({ name: 'John Doe', age: 30, active: true });
+          await otherModel.insertOne({ name: 'Max Doe', age: 40, active: true });
+        }),
+        /ConflictError/
+      );
+
+      assert.equal(firstModel.countAll(), 0);
+      assert.equal(otherModel.countAll(), 0);
+      assert.equal(await storage.exists('otherModel.json'), true);
+      assert.equal(await storage.read('otherModel.json'), '{}');
+
+      await otherModel.insertOne({ name: 'Ann Doe', age: 20, active: true });
+      assert.deepEqual(
+        Object.values(JSON.parse(await storage.read('otherModel.json'))).map((x: any) => x.name),
+        ['Ann Doe']
+      );
+    });
+
+    it('should undo the changes of a write that fails with a ConflictError', async () => {
+      const [john, jane] = await firstModel.insertMany([
+        { name: 'John Doe', age: 30, active: true },
+        { name: 'Jane Doe', age: 25, active: true },
+      ]);
+      await secondModel.reload();
+      await firstModel.insertOne({ name: 'Max Doe', age: 40, active: true });
+
+      await assert.rejects(secondModel.insertOne({ name: 'Ann Doe', age: 20, active: true }), /ConflictError/);
+      await assert.rejects(secondModel.updateById(john.id, { age: 31 }), /ConflictError/);
+      await assert.rejects(secondModel.deleteById(jane.id), /ConflictError/);
+      await assert.rejects(secondModel.deleteAll(), /ConflictError/);
+
+      assert.deepEqual(await secondModel.find({ name: 'Ann Doe' }), []);
+      assert.equal(secondModel.findById(john.id)?.age, 30);
+      assert.deepEqual(secondModel.findById(jane.id), jane);
+      assert.deepEqual(
+        (await secondModel.find({ name: 'Jane Doe' })).map((x) => x.id),
+        [jane.id]
+      );
+      assert.ok(secondModel.verifyIndexes().isValid);
+
+      await secondModel.reload();
+      await secondModel.insertOne({ name: 'Wendy Darling', age: 20, active: true });
+      const records = Object.values(JSON.parse(await storage.read('sharedModel.json'))) as Array<TestModel>;
+      assert.deepEqual(records.map((x) => x.name).sort(), ['Jane Doe', 'John Doe', 'Max Doe', 'Wendy Darling']);
+      assert.equal(records.find((x) => x.id === john.id)?.age, 30);
+    });
+
+    it('should reload the changes of another process', async () => {
+      const record = await firstModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      assert.equal(await secondModel.reload(), true);
+      assert.deepEqual(secondModel.findById(record.id), record);
+      assert.equal(await secondModel.reload(), false);
+
+      await secondModel.insertOne({ name: 'Jane Doe', age: 25, active: true });
+      assert.equal(secondModel.countAll(), 2);
+    });
+
+    it('should detect appends to the journal of another process', async () => {
+      const journalModel = await new SkewerModel<TestModel>('sharedModel', testSchema, storage, {
+        journal: true,
+      }).initialize();
+      await journalModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await assert.rejects(firstModel.insertOne({ name: 'Jane Doe', age: 25, active: true }), /ConflictError/);
+      assert.equal(await firstModel.reload(), true);
+      assert.equal(firstModel.countAll(), 1);
+    });
+
+    it('should reload before a write with autoReload', async () => {
+      const reloadingModel = await new SkewerModel<TestModel>('sharedModel', testSchema, storage, {
+        autoReload: true,
+      }).initialize();
+      await firstModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await reloadingModel.insertOne({ name: 'Jane Doe', age: 25, active: true });
+
+      assert.equal(reloadingModel.countAll(), 2);
+      await firstModel.reload();
+      assert.equal(firstModel.countAll(), 2);
+    });
+
+    it('should not write in read-only mode', async () => {
+      const readOnlyModel = await new SkewerModel<TestModel>('otherModel', testSchema, storage, {
+        readOnly: true,
+      }).initialize();
+
+      assert.equal(readOnlyModel.countAll(), 0);
+      assert.equal(await storage.exists('otherModel.json'), false);
+      await assert.rejects(readOnlyModel.insertOne({ name: 'John Doe', age: 30, active: true }), /ReadOnlyError/);
+      await assert.rejects(readOnlyModel.createIndex('age'), /ReadOnlyError/);
+      await assert.rejects(readOnlyModel.drop(), /ReadOnlyError/);
+      assert.equal(readOnlyModel.countAll(), 0);
+    });
+
+    it('should read the changes of a writer in read-only mode', async () => {
+      const readOnlyModel = await new SkewerModel<TestModel>('sharedModel', testSchema, storage, {
+        readOnly: true,
+      }).initialize();
+      const record = await firstModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      assert.equal(readOnlyModel.findById(record.id), undefined);
+      assert.equal(await readOnlyModel.reload(), true);
+      assert.deepEqual(readOnlyModel.findById(record.id), record);
+    });
+
+    it('should only let one model write the collection at a time', async () => {
+      await storage.lock('sharedModel.lock');
+      let isWritten = false;
+      const write = firstModel.insertOne({ name: 'John Doe', age: 30, active: true }).then(() => (isWritten = true));
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      assert.equal(isWritten, false);
+
+      await storage.unlock('sharedModel.lock');
+      await write;
+      assert.equal(isWritten, true);
+    });
+  });
+
+  describe('encryption', () => {
+    let storage: MemoryStorageAdapter;
+
+    const openModel = (options: ModelOptions) =>
+      new SkewerModel<TestModel>('secretModel', testSchema, storage, options).initialize();
+
+    beforeEach(() => {
+      storage = new MemoryStorageAdapter();
+    });
+
+    it('should encrypt the data and index files', async () => {
+      const secretModel = await openModel({ encryptionKey: 'secret' });
+      const record = await secretModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      assert.equal((await storage.read('secretModel.json')).includes('John Doe'), false);
+      assert.equal((await storage.read('secretModel_index.json')).includes('John Doe'), false);
+
+      const reopenedModel = await openModel({ encryptionKey: 'secret' });
+      assert.deepEqual(reopenedModel.findById(record.id), record);
+    });
+
+    it('should encrypt the journal', async () => {
+      const secretModel = await openModel({ encryptionKey: 'secret', journal: true });
+      const record = await secretModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      assert.equal((await storage.read('secretModel_journal.ndjson')).includes('John Doe'), false);
+
+      const reopenedModel = await openModel({ encryptionKey: 'secret', journal: true });
+      assert.deepEqual(reopenedModel.findById(record.id), record);
+    });
+
+    it('should accept a key or a key provider', async () => {
+      const key = crypto.randomBytes(32);
+      await (await openModel({ encryptionKey: key })).insertOne({ name: 'John Doe', age: 30, active: true });
+
+      const reopenedModel = await openModel({ encryptionKey: async () => key });
+      assert.equal(reopenedModel.countAll(), 1);
+      await assert.rejects(openModel({ encryptionKey: crypto.randomBytes(16) }), /EncryptionError/);
+    });
+
+    it('should throw EncryptionError if the key is wrong or missing', async () => {
+      await (await openModel({ encryptionKey: 'secret' })).insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await assert.rejects(openModel({ encryptionKey: 'wrong' }), /EncryptionError.*key is wrong/);
+      await assert.rejects(openModel({}), /EncryptionError.*no key is set/);
+    });
+
+    it('should throw EncryptionError if a file was tampered with', async () => {
+      await (await openModel({ encryptionKey: 'secret' })).insertOne({ name: 'John Doe', age: 30, active: true });
+      const fileData = await storage.read('secretModel.json');
+      await storage.write('secretModel.json', `${fileData.slice(0, -4)}AAAA`);
+
+      await assert.rejects(openModel({ encryptionKey: 'secret' }), /EncryptionError/);
+
+      await storage.write('secretModel.json', '{}');
+      await assert.rejects(openModel({ encryptionKey: 'secret' }), /EncryptionError.*not encrypted/);
+    });
+
+    it('should stretch a passphrase with a random salt of each collection', async () => {
+      const secretModel = await openModel({ encryptionKey: 'secret' });
+      const otherModel = await new SkewerModel<TestModel>('otherModel', testSchema, storage, {
+        encryptionKey: 'secret',
+      }).initialize();
+      const salt = JSON.parse(await storage.read('secretModel_meta.json')).salt;
+
+      assert.equal(typeof salt, 'string');
+      assert.notEqual(JSON.parse(await storage.read('otherModel_meta.json')).salt, salt);
+
+      const record = await secretModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      await otherModel.insertOne({ name: 'Jane Doe', age: 25, active: true });
+      assert.equal(JSON.parse(await storage.read('secretModel_meta.json')).salt, salt);
+      assert.deepEqual((await openModel({ encryptionKey: 'secret' })).findById(record.id), record);
+
+      await secretModel.rekey('secret');
+      assert.notEqual(JSON.parse(await storage.read('secretModel_meta.json')).salt, salt);
+      assert.deepEqual((await openModel({ encryptionKey: 'secret' })).findById(record.id), record);
+    });
+
+    it('should throw EncryptionError if a file was replaced with another encrypted file', async () => {
+      const secretModel = await openModel({ encryptionKey: 'secret' });
+      await secretModel.insertOne({ name: 'John Doe', age: 30, active: true });
+      const dataFile = await storage.read('secretModel.json');
+
+      await storage.write('secretModel.json', await storage.read('secretModel_index.json'));
+      await assert.rejects(openModel({ encryptionKey: 'secret' }), /EncryptionError.*secretModel.json/);
+
+      // a copy of the collection under another name has the same salt and key
+      await storage.write('secretModel.json', dataFile);
+      await storage.write('copiedModel.json', dataFile);
+      await storage.write('copiedModel_index.json', await storage.read('secretModel_index.json'));
+      await storage.write('copiedModel_meta.json', await storage.read('secretModel_meta.json'));
+      await assert.rejects(
+        new SkewerModel<TestModel>('copiedModel', testSchema, storage, { encryptionKey: 'secret' }).initialize(),
+        /EncryptionError/
+      );
+      assert.equal((await openModel({ encryptionKey: 'secret' })).countAll(), 1);
+    });
+
+    it('should rotate the key with rekey', async () => {
+      const plainModel = await openModel({});
+      const record = await plainModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await plainModel.rekey('first');
+      assert.deepEqual((await openModel({ encryptionKey: 'first' })).findById(record.id), record);
+
+      await plainModel.rekey('second');
+      await assert.rejects(openModel({ encryptionKey: 'first' }), /EncryptionError/);
+      assert.deepEqual((await openModel({ encryptionKey: 'second' })).findById(record.id), record);
+
+      await plainModel.rekey();
+      assert.equal((await storage.read('secretModel.json')).includes('John Doe'), true);
+    });
+  });
+
+  describe('compression', () => {
+    let storage: MemoryStorageAdapter;
+
+    const openModel = (options: ModelOptions) =>
+      new SkewerModel<TestModel>('compressedModel', testSchema, storage, options).initialize();
+
+    beforeEach(() => {
+      storage = new MemoryStorageAdapter();
+    });
+
+    for (const compression of ['gzip', 'brotli'] as const) {
+      it(`should store the files ${compression} compressed`, async () => {
+        const compressedModel = await openModel({ compression });
+        const records = await compressedModel.insertMany(
+          Array.from({ length: 50 }, (_, i) => ({ name: `John Doe ${i}`, age: 30, active: true }))
+        );
+
+        const fileData = await storage.read('compressedModel.json');
+        assert.equal(fileData.startsWith(`skewer:${compression}:`), true);
+        assert.ok(fileData.length < JSON.stringify(records).length / 2);
+
+        const reopenedModel = await openModel({});
+        assert.deepEqual(reopenedModel.getAllRecords(), compressedModel.getAllRecords());
+      });
+    }
+
+    it('should convert a plain collection on initialize', async () => {
+      const record = await (await openModel({})).insertOne({ name: 'John Doe', age: 30, active: true });
+
+      const compressedModel = await openModel({ compression: 'gzip' });
+      assert.deepEqual(compressedModel.findById(record.id), record);
+      assert.equal((await storage.read('compressedModel.json')).startsWith('skewer:gzip:'), true);
+    });
+
+    it('should convert a collection with setCompression', async () => {
+      const compressedModel = await openModel({ compression: 'gzip' });
+      await compressedModel.insertOne({ name: 'John Doe', age: 30, active: true });
+
+      await compressedModel.setCompression('brotli');
+      assert.equal((await storage.read('compressedModel_index.json')).startsWith('skewer:brotli:'), true);
+
+      await compressedModel.setCompression();
+      assert.equal((await storage.read('compressedModel.json')).includes('John Doe'), true);
+    });
+
+    it('should compress encrypted collections', async () => {
+      const record = await (
+        await openModel({ compression: 'gzip', encryptionKey: 'secret' })
+      ).insertOne({ name: 'John Doe', age: 30, active: true });
+
+      const reopenedModel = await openModel({ compression: 'gzip', encryptionKey: 'secret' });
+      assert.deepEqual(reopenedModel.findById(record.id), record);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should restore a snapshot', async () => {
+      const record = await model.insertOne({ name: 'John Doe', age: 30, active: true });
+      const snapshot = await model.snapshot();
+
+      assert.equal(snapshot.records, 1);
+      await model.updateById(record.id, { age: 31 });
+      await model.insertOne({ name: 'Jane Doe', age: 25, active: true });
+
+      await model.restore(snapshot);
+      assert.deepEqual(model.getAllRecords(), [record]);
+      assert.equal(await model.findOne({ name: 'Jane Doe' }), undefined);
+
+      const reopenedModel = await new SkewerModel<TestModel>('testModel', testSchema, testBasePath).initialize();
+      assert.deepEqual(reopenedModel.getAllRecords(), [record]);
+    });
+
+    it('should throw SnapshotError for a changed snapshot or another collection', async () => {
+      await model.insertOne({ name: 'John Doe', age: 30, active: true });
+      const snapshot = await model.snapshot();
+
+      await assert.rejects(
+        model.restore({ ...snapshot, files: { ...snapshot.files, 'testModel.json': '{}' } }),
+        /SnapshotError/
+      );
+      await assert.rejects(model.restore({ ...snapshot, name: 'otherModel' }), /SnapshotError/);
+      assert.equal(model.countAll(), 1);
+    });
+  });
+  describe('import and export', () => {
+    interface EventModel extends ISkewerModel {
+      title: string;
+      attendees: number;
+      online: boolean;
+      startsAt: Date;
+      tags: Array<string>;
+      venue: { city: string };
+    }
+
+    const eventSchema: SchemaType = {
+      title: { type: String, required: true },
+      attendees: { type: Number, min: 0 },
+      online: { type: Boolean },
+      startsAt: { type: Date },
+      tags: [{ type: String }],
+      venue: { city: { type: String } },
+    };
+
+    let events: SkewerModel<EventModel>;
+
+    const exportToString = async (options: ExportOptions): Promise<string> => {
+      const stream = new PassThrough();
+      const chunks: Array<Buffer> = [];
+      stream.on('data', (chunk) => chunks.push(chunk));
+
+      await events.export(stream, options);
+      return Buffer.concat(chunks).toString();
+    };
+
+    const reimport = async (data: string, options: ImportOptions) => {
+      const importedModel = await new SkewerModel<EventModel>(
+        'events',
+        eventSchema,
+        new MemoryStorageAdapter()
+      ).initialize();
+      const report = await importedModel.import(Readable.from([data]), options);
+
+      return { importedModel, report };
+    };
+
+    const withoutTimestamps = ({ createdAt, updatedAt, ...fields }: any) => fields;
+
+    beforeEach(async () => {
+      events = await new SkewerModel<EventModel>('events', eventSchema, new MemoryStorageAdapter()).initialize();
+      await events.insertMany([
+        {
+          title: 'Launch, "party"',
+          attendees: 120,
+          online: false,
+          startsAt: new Date('2024-05-01T18:00:00.000Z'),
+          tags: ['launch', 'party'],
+          venue: { city: 'Berlin' },
+        },
+        { title: 'Webinar\nPart 1', attendees: 40, online: true, tags: [], venue: { city: 'Online' } },
+      ]);
+    });
+
+    for (const format of ['ndjson', 'csv', 'ejson'] as const) {
+      it(`should round trip the records as ${format}`, async () => {
+        const { importedModel, report } = await reimport(await exportToString({ format }), { format });
+
+        assert.deepEqual(report, { inserted: 2, updated: 0, errors: [] });
+        for (const record of events.getAllRecords()) {
+          assert.deepEqual(withoutTimestamps(importedModel.findById(record.id)), withoutTimestamps(record));
+        }
+      });
+    }
+
+    it('should write CSV with a header and quoted values', async () => {
+      const data = await exportToString({ format: 'csv', fields: ['title', 'venue.city'] });
+      const [header, firstRow] = data.split('\n');
+
+      assert.equal(header, 'title,venue.city');
+      assert.equal(firstRow, '"Launch, ""party""",Berlin');
+    });
+
+    it('should write and read MongoDB Extended JSON', async () => {
+      const [line] = (await exportToString({ format: 'ejson', filter: { attendees: 120 } })).split('\n');
+      const document = JSON.parse(line);
+
+      assert.equal(document._id, events.getAllRecords()[0].id);
+      assert.equal(document.id, undefined);
+      assert.deepEqual(document.startsAt, { $date: '2024-05-01T18:00:00.000Z' });
+
+      const mongoexportLine = JSON.stringify({
+        _id: { $oid: '65f1c0ffee0000000000abcd' },
+        title: 'Imported',
+        attendees: { $numberLong: '7' },
+        startsAt: { $date: { $numberLong: '1714586400000' } },
+      });
+      const { importedModel } = await reimport(mongoexportLine, { format: 'ejson' });
+      const record = importedModel.findById('65f1c0ffee0000000000abcd');
+
+      assert.equal(record?.attendees, 7);
+      assert.deepEqual(record?.startsAt, new Date(1714586400000));
+    });
+
+    it('should report the rows that fail and import the others', async () => {
+      const data = ['{"title":"First"}', 'not json', '{"attendees":-1}', '{"title":"Last"}'].join('\n');
+      const { importedModel, report } = await reimport(data, {});
+
+      assert.equal(report.inserted, 2);
+      assert.deepEqual(
+        report.errors.map((x) => x.row),
+        [2, 3]
+      );
+      assert.match(report.errors[1].message, /title/);
+      assert.equal(importedModel.countAll(), 2);
+    });
+
+    it('should import nothing in a transaction if a row fails', async () => {
+      const data = ['{"title":"First"}', '{"attendees":-1}'].join('\n');
+      const { importedModel, report } = await reimport(data, { transaction: true });
+
+      assert.equal(report.inserted, 0);
+      assert.equal(report.errors.length, 1);
+      assert.equal(importedModel.countAll(), 0);
+    });
+
+    it('should update existing records in upsert mode', async () => {
+      const [record] = events.getAllRecords();
+      const data = [JSON.stringify({ id: record.id, title: 'Updated' }), JSON.stringify({ title: 'New' })].join('\n');
+
+      assert.deepEqual(await events.import(Readable.from([data]), { mode: 'upsert' }), {
+        inserted: 1,
+        updated: 1,
+        errors: [],
+      });
+      assert.equal(events.findById(record.id)?.title, 'Updated');
+
+      const report = await events.import(Readable.from([JSON.stringify({ id: record.id, title: 'Duplicate' })]));
+      assert.match(report.errors[0].message, /already exists/);
+    });
+  });
+
+  describe('ttl', () => {
+    interface SessionModel extends ISkewerModel {
+      user: string;
+      expireAt?: Date | string;
+    }
+
+    const sessionSchema: SchemaType = {
+      user: { type: String, required: true, index: true },
+    };
+
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    let storage: MemoryStorageAdapter;
+    let sessions: SkewerModel<SessionModel>;
+
+    beforeEach(async () => {
+      storage = new MemoryStorageAdapter();
+      sessions = await new SkewerModel<SessionModel>('sessions', sessionSchema, storage, {
+        ttlSweepInterval: 20,
+      }).initialize();
+    });
+
+    afterEach(async () => {
+      await sessions.close();
+    });
+
+    it('should hide records whose expireAt has passed right away', async () => {
+      const expired = await sessions.insertOne({ user: 'ann', expireAt: new Date(Date.now() - 1000) });
+      const active = await sessions.insertOne({ user: 'bob', expireAt: new Date(Date.now() + 60 * 1000) });
+      const permanent = await sessions.insertOne({ user: 'cid' });
+
+      assert.equal(sessions.findById(expired.id), undefined);
+      assert.deepEqual(
+        sessions.getAllRecords().map((x) => x.id),
+        [active.id, permanent.id]
+      );
+      assert.deepEqual(await sessions.find({ user: 'ann' }), []);
+      assert.equal(sessions.countAll(), 2);
+      assert.equal(sessions.verifyIndexes().isValid, true);
+    });
+
+    it('should expire records a number of seconds after a schema field', async () => {
+      const cache = await new SkewerModel<any>(
+        'cache',
+        { key: { type: String }, createdAt: { type: String, expires: 0.05 } },
+        storage
+      ).initialize();
+      const record = await cache.insertOne({ key: 'a' });
+
+      assert.ok(cache.findById(record.id));
+      await sleep(80);
+      assert.equal(cache.findById(record.id), undefined);
+      assert.equal(await cache.countDocuments({ key: 'a' }), 0);
+
+      await cache.close();
+    });
+
+    it('should remove the expired records from the files in the background', async () => {
+      const record = await sessions.insertOne({ user: 'ann', expireAt: new Date(Date.now() + 30).toISOString() });
+      await sessions.insertOne({ user: 'bob' });
+
+      await sleep(150);
+
+      const records = JSON.parse(await storage.read('sessions.json'));
+      const index = JSON.parse(await storage.read('sessions_index.json'));
+      assert.deepEqual(
+        Object.values(records).map((x: any) => x.user),
+        ['bob']
+      );
+      assert.equal(record.id in records, false);
+      assert.deepEqual(Object.keys(index.user), ['bob']);
+    });
+
+    it('should sweep and keep the expired records out of reloaded collections', async () => {
+      // the default interval does not sweep during the test
+      const tokens = await new SkewerModel<SessionModel>('tokens', sessionSchema, storage).initialize();
+      await tokens.insertOne({ user: 'ann', expireAt: new Date(Date.now() + 20) });
+      await tokens.insertOne({ user: 'bob', expireAt: new Date(Date.now() + 20) });
+      await sleep(40);
+
+      const reader = await new SkewerModel<SessionModel>('tokens', sessionSchema, storage, {
+        readOnly: true,
+      }).initialize();
+      assert.equal(reader.countAll(), 0);
+      assert.equal(Object.keys(JSON.parse(await storage.read('tokens.json'))).length, 2);
+
+      assert.equal(await tokens.sweep(), 2);
+      assert.equal(await tokens.sweep(), 0);
+      assert.deepEqual(JSON.parse(await storage.read('tokens.json')), {});
+
+      await reader.close();
+      await tokens.close();
+    });
+
+    it('should run the sweeper on an unref timer that close stops', async () => {
+      await sessions.insertOne({ user: 'ann', expireAt: new Date(Date.now() + 60 * 1000) });
+
+      const sweeper = (sessions as any).sweeper;
+      assert.ok(sweeper);
+      assert.equal(sweeper.hasRef(), false);
+
+      await sessions.close();
+      assert.equal((sessions as any).sweeper, undefined);
+    });
+  });
 });
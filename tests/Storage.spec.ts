@@ -1,18 +1,23 @@
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as sinon from 'sinon';
-import { FileStorage } from '../src/Storage';
+import { CONSTANTS } from '../src/Constants';
+import { FileStorageAdapter, MemoryStorageAdapter } from '../src/Storage';
 
-const testFilePath = path.join(__dirname, 'test.txt');
 const testDirPath = path.join(__dirname, 'testDir');
+const testFilePath = path.join(testDirPath, 'test.txt');
 
-describe('FileStorage', () => {
-  afterEach(async () => {
-    try {
-      await fs.promises.unlink(testFilePath);
-    } catch (err) {} // Ignore if file doesn't exist
+describe('FileStorageAdapter', () => {
+  let storage: FileStorageAdapter;
 
+  beforeEach(async () => {
+    storage = new FileStorageAdapter(testDirPath);
+    await storage.init();
+  });
+
+  afterEach(async () => {
     try {
       await fs.promises.rm(testDirPath, { recursive: true });
     } catch (err) {} // Ignore if directory doesn't exist
@@ -20,43 +25,36 @@ describe('FileStorage', () => {
 
   it('should read from a file', async () => {
     await fs.promises.writeFile(testFilePath, 'test data');
-    const data = await FileStorage.read(testFilePath);
+    const data = await storage.read('test.txt');
     assert.equal(data, 'test data');
   });
 
   it('should throw error if file not found while reading', async () => {
-    try {
-      await FileStorage.read('non_existent_file.txt');
-      assert.fail('Should throw an error');
-    } catch (error) {
-      // Check if correct error type is thrown
-    }
+    await assert.rejects(storage.read('non_existent_file.txt'), /ENOENT/);
   });
 
   it('should write to a file', async () => {
-    await FileStorage.write(testFilePath, 'test data');
+    await storage.write('test.txt', 'test data');
     const data = await fs.promises.readFile(testFilePath, 'utf-8');
     assert.equal(data, 'test data');
   });
 
   it('should check if a file exists', async () => {
-    assert.equal(await FileStorage.exists(testFilePath), false);
+    assert.equal(await storage.exists('test.txt'), false);
     await fs.promises.writeFile(testFilePath, 'Some Text');
-    assert.equal(await FileStorage.exists(testFilePath), true);
+    assert.equal(await storage.exists('test.txt'), true);
   });
 
   it('should check if a file exists (negative case)', async () => {
-    assert.equal(await FileStorage.exists('non_existent_file.txt'), false);
+    assert.equal(await storage.exists('non_existent_file.txt'), false);
   });
 
-  it('should make a directory', async () => {
-    await FileStorage.mkdir(testDirPath);
+  it('should make the base directory', async () => {
     assert.equal(fs.existsSync(testDirPath), true);
   });
 
-  it('should make a directory (directory already exists)', async () => {
-    await fs.promises.mkdir(testDirPath);
-    await FileStorage.mkdir(testDirPath);
+  it('should make the base directory (directory already exists)', async () => {
+    await storage.init();
     assert.equal(fs.existsSync(testDirPath), true);
   });
 
@@ -68,7 +66,7 @@ describe('FileStorage', () => {
       mockEAccessError.cause = { code: 'EACCES' };
       sinon.stub(fs.promises, 'mkdir').throws(mockEAccessError);
 
-      await FileStorage.mkdir(testDirPath);
+      await new FileStorageAdapter(path.join(testDirPath, 'nested')).init();
       assert.fail('Should have thrown an error');
     } catch (error) {
       assert.notEqual(error.code, 'EEXIST');
@@ -76,4 +74,239 @@ describe('FileStorage', () => {
       fs.promises.mkdir = originalMkdir;
     }
   });
+
+  it('should write a file atomically', async () => {
+    await storage.write('test.txt', 'old data');
+    await storage.write('test.txt', 'new data');
+
+    assert.equal(await fs.promises.readFile(testFilePath, 'utf-8'), 'new data');
+    assert.deepEqual(fs.readdirSync(testDirPath), ['test.txt']);
+  });
+
+  it('should append to a file and report its size', async () => {
+    await storage.append('test.txt', 'test');
+    await storage.append('test.txt', ' data');
+
+    assert.equal(await storage.read('test.txt'), 'test data');
+    assert.equal(await storage.size('test.txt'), 9);
+    assert.equal(await storage.size('non_existent_file.txt'), 0);
+
+    await storage.truncate('test.txt', 4);
+    assert.equal(await storage.read('test.txt'), 'test');
+  });
+
+  it('should remove a file and ignore missing files', async () => {
+    await fs.promises.writeFile(testFilePath, 'test data');
+    await storage.remove('test.txt');
+    await storage.remove('test.txt');
+
+    assert.equal(fs.existsSync(testFilePath), false);
+  });
+
+  it('should list the files of the base directory', async () => {
+    await storage.write('test.txt', 'test data');
+
+    assert.deepEqual(await storage.list(), ['test.txt']);
+    assert.deepEqual(await new FileStorageAdapter(path.join(testDirPath, 'missing')).list(), []);
+  });
+
+  describe('atomic multi file writes', () => {
+    const dataPath = path.join(testDirPath, 'data.json'),
+      indexPath = path.join(testDirPath, 'index.json'),
+      commitPath = path.join(testDirPath, 'data.commit');
+
+    beforeEach(async () => {
+      await fs.promises.writeFile(dataPath, 'old data');
+      await fs.promises.writeFile(indexPath, 'old index');
+    });
+
+    it('should write several files together', async () => {
+      await storage.writeMany(
+        [
+          ['data.json', 'new data'],
+          ['index.json', 'new index'],
+        ],
+        'data.commit'
+      );
+
+      assert.equal(fs.readFileSync(dataPath, 'utf-8'), 'new data');
+      assert.equal(fs.readFileSync(indexPath, 'utf-8'), 'new index');
+      assert.deepEqual(fs.readdirSync(testDirPath).sort(), ['data.json', 'index.json']);
+    });
+
+    it('should roll forward a committed write on recovery', async () => {
+      await fs.promises.writeFile(`${dataPath}.1.tmp`, 'new data');
+      await fs.promises.writeFile(`${indexPath}.2.tmp`, 'new index');
+      await fs.promises.writeFile(
+        commitPath,
+        JSON.stringify([
+          ['data.json.1.tmp', 'data.json'],
+          ['index.json.2.tmp', 'index.json'],
+        ])
+      );
+
+      assert.equal(await storage.recover(['data.json', 'index.json']), true);
+      assert.equal(fs.readFileSync(dataPath, 'utf-8'), 'new data');
+      assert.equal(fs.readFileSync(indexPath, 'utf-8'), 'new index');
+      assert.deepEqual(fs.readdirSync(testDirPath).sort(), ['data.json', 'index.json']);
+    });
+
+    it('should roll back an uncommitted write on recovery', async () => {
+      await fs.promises.writeFile(`${dataPath}.1.tmp`, 'new da');
+
+      assert.equal(await storage.recover(['data.json', 'index.json']), true);
+      assert.equal(fs.readFileSync(dataPath, 'utf-8'), 'old data');
+      assert.deepEqual(fs.readdirSync(testDirPath).sort(), ['data.json', 'index.json']);
+    });
+
+    it('should not recover anything after a clean write', async () => {
+      assert.equal(await storage.recover(['data.json', 'index.json']), false);
+    });
+  });
+
+  describe('locks', () => {
+    const lockPath = path.join(testDirPath, 'test.lock');
+
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('should create the lock file and remove it on unlock', async () => {
+      await storage.lock('test.lock');
+      assert.equal(JSON.parse(await fs.promises.readFile(lockPath, 'utf-8')).pid, process.pid);
+
+      await storage.unlock('test.lock');
+      assert.equal(fs.existsSync(lockPath), false);
+    });
+
+    it('should wait until the lock is released', async () => {
+      await storage.lock('test.lock');
+      let isLocked = false;
+      const secondLock = storage.lock('test.lock').then(() => (isLocked = true));
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.equal(isLocked, false);
+
+      await storage.unlock('test.lock');
+      await secondLock;
+      assert.equal(isLocked, true);
+    });
+
+    it('should take over the lock of a crashed process', async () => {
+      // no process can have this pid
+      const holder = { pid: 2 ** 30, hostname: os.hostname(), time: Date.now() };
+      await fs.promises.writeFile(lockPath, JSON.stringify(holder));
+
+      await storage.lock('test.lock');
+      assert.equal(JSON.parse(await fs.promises.readFile(lockPath, 'utf-8')).pid, process.pid);
+    });
+
+    it('should take over an old lock of another host', async () => {
+      const holder = { pid: process.pid, hostname: 'other-host', time: Date.now() - CONSTANTS.lockStaleTime - 1 };
+      await fs.promises.writeFile(lockPath, JSON.stringify(holder));
+
+      await storage.lock('test.lock');
+      assert.equal(JSON.parse(await fs.promises.readFile(lockPath, 'utf-8')).hostname, os.hostname());
+    });
+
+    it('should take over a crashed lock only once when several writers see it', async () => {
+      const holder = { pid: 2 ** 30, hostname: os.hostname(), time: Date.now() };
+      await fs.promises.writeFile(lockPath, JSON.stringify(holder));
+      const otherStorage = new FileStorageAdapter(testDirPath);
+      let holders = 0,
+        maxHolders = 0;
+
+      const holdLock = async (adapter: FileStorageAdapter): Promise<void> => {
+        await adapter.lock('test.lock');
+        maxHolders = Math.max(maxHolders, ++holders);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        holders--;
+        await adapter.unlock('test.lock');
+      };
+
+      await Promise.all([holdLock(storage), holdLock(otherStorage), holdLock(storage)]);
+      assert.equal(maxHolders, 1);
+      assert.equal(fs.existsSync(`${lockPath}.takeover`), false);
+    });
+
+    it('should remove the takeover file of a crashed process', async () => {
+      const holder = { pid: 2 ** 30, hostname: os.hostname(), time: Date.now() };
+      await fs.promises.writeFile(lockPath, JSON.stringify(holder));
+      await fs.promises.writeFile(`${lockPath}.takeover`, JSON.stringify(holder));
+
+      await storage.lock('test.lock');
+      assert.equal(JSON.parse(await fs.promises.readFile(lockPath, 'utf-8')).pid, process.pid);
+      assert.equal(fs.existsSync(`${lockPath}.takeover`), false);
+    });
+
+    it('should throw LockError if the lock is not released in time', async () => {
+      sinon.stub(CONSTANTS, 'lockTimeout').value(50);
+      await storage.lock('test.lock');
+
+      await assert.rejects(storage.lock('test.lock'), /LockError/);
+    });
+  });
+});
+
+describe('MemoryStorageAdapter', () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    await storage.init();
+  });
+
+  it('should write, read and remove a file', async () => {
+    assert.equal(await storage.exists('test.txt'), false);
+    await storage.write('test.txt', 'test data');
+
+    assert.equal(await storage.exists('test.txt'), true);
+    assert.equal(await storage.read('test.txt'), 'test data');
+
+    await storage.remove('test.txt');
+    await assert.rejects(storage.read('test.txt'), /ENOENT/);
+  });
+
+  it('should write several files together', async () => {
+    await storage.writeMany([
+      ['data.json', 'new data'],
+      ['index.json', 'new index'],
+    ]);
+
+    assert.equal(await storage.read('data.json'), 'new data');
+    assert.equal(await storage.read('index.json'), 'new index');
+    assert.equal(await storage.recover(), false);
+  });
+
+  it('should append, truncate and report the size of a file', async () => {
+    await storage.append('test.txt', 'test');
+    await storage.append('test.txt', ' data');
+    assert.equal(await storage.size('test.txt'), 9);
+
+    await storage.truncate('test.txt', 4);
+    assert.equal(await storage.read('test.txt'), 'test');
+  });
+
+  it('should list the files', async () => {
+    await storage.write('test.txt', 'test data');
+    assert.deepEqual(await storage.list(), ['test.txt']);
+  });
+
+  it('should wait until a lock is released', async () => {
+    await storage.lock('test.lock');
+    let isLocked = false;
+    const secondLock = storage.lock('test.lock').then(() => (isLocked = true));
+
+    await Promise.resolve();
+    assert.equal(isLocked, false);
+
+    await storage.unlock('test.lock');
+    await secondLock;
+    assert.equal(isLocked, true);
+  });
+
+  it('should keep instances isolated', async () => {
+    await storage.write('test.txt', 'test data');
+    assert.equal(await new MemoryStorageAdapter().exists('test.txt'), false);
+  });
 });
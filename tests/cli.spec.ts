@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { PassThrough, Readable } from 'stream';
+
+import { run } from '../src/cli';
+
+describe('cli', () => {
+  const testBasePath = `${process.cwd()}/test_storage/cli`;
+  const modelsPath = `${testBasePath}/models.ts`;
+
+  const skewer = async (argv: Array<string>, input = '') => {
+    const stdout = new PassThrough(),
+      stderr = new PassThrough();
+    const out: Array<Buffer> = [],
+      err: Array<Buffer> = [];
+    stdout.on('data', (chunk) => out.push(chunk));
+    stderr.on('data', (chunk) => err.push(chunk));
+
+    const code = await run(['--dir', testBasePath, ...argv], {
+      stdin: Readable.from([input]),
+      stdout,
+      stderr,
+      env: {},
+    });
+
+    return { code, stdout: Buffer.concat(out).toString(), stderr: Buffer.concat(err).toString() };
+  };
+
+  beforeEach(() => {
+    fs.rmSync(testBasePath, { recursive: true, force: true });
+    fs.mkdirSync(testBasePath, { recursive: true });
+    fs.writeFileSync(
+      modelsPath,
+      [
+        `import { SkewerDatabase, SchemaType } from '${process.cwd()}/src';`,
+        `export const db = new SkewerDatabase('${testBasePath}');`,
+        `export const UserSchema: SchemaType = {`,
+        `  name: { type: String, required: true, unique: true },`,
+        `  age: { type: Number, min: 0 },`,
+        `};`,
+        `export const UserModel = () => db.model('users', UserSchema);`,
+      ].join('\n')
+    );
+  });
+
+  it('should insert, get, update and delete records by id', async () => {
+    const inserted = await skewer(['insert', 'users', '{"name":"Ann","age":30}']);
+    assert.equal(inserted.code, 0);
+    const { id } = JSON.parse(inserted.stdout);
+
+    assert.equal(JSON.parse((await skewer(['get', 'users', id])).stdout).name, 'Ann');
+    assert.equal(JSON.parse((await skewer(['update', 'users', id, '{"$inc":{"age":1}}'])).stdout).age, 31);
+    assert.equal((await skewer(['delete', 'users', id])).code, 0);
+
+    const missing = await skewer(['get', 'users', id]);
+    assert.equal(missing.code, 1);
+    assert.match(missing.stderr, /was not found/);
+  });
+
+  it('should find records with a filter, sort and limit', async () => {
+    await skewer(['insert', 'users', '{"name":"Ann","age":30}']);
+    await skewer(['insert', 'users', '{"name":"Bob","age":40}']);
+    await skewer(['insert', 'users', '{"name":"Cid","age":50}']);
+
+    const { code, stdout } = await skewer([
+      'find',
+      'users',
+      '{"age":{"$gte":40}}',
+      '--sort',
+      '{"age":-1}',
+      '--limit',
+      '1',
+    ]);
+
+    assert.equal(code, 0);
+    assert.deepEqual(
+      JSON.parse(stdout).map((x: any) => x.name),
+      ['Cid']
+    );
+  });
+
+  it('should list the collections with their record counts and sizes', async () => {
+    await skewer(['insert', 'users', '{"name":"Ann"}']);
+    await skewer(['insert', 'books', '{"title":"Dune"}']);
+
+    const { code, stdout } = await skewer(['list']);
+    const rows = stdout
+      .trim()
+      .split('\n')
+      .map((line) => line.split(/\s+/));
+
+    assert.equal(code, 0);
+    assert.deepEqual(rows[0], ['NAME', 'RECORDS', 'SIZE']);
+    assert.deepEqual(
+      rows.slice(1).map(([name, records]) => [name, records]),
+      [
+        ['books', '1'],
+        ['users', '1'],
+      ]
+    );
+    assert.ok(Number(rows[1][2]) > 0);
+  });
+
+  it('should validate records against the schema of a model module', async () => {
+    const invalid = await skewer(['--models', modelsPath, 'insert', 'users', '{"age":-1}']);
+
+    assert.equal(invalid.code, 1);
+    assert.match(invalid.stderr, /SchemaValidationError/);
+
+    assert.equal((await skewer(['--models', modelsPath, 'insert', 'users', '{"name":"Ann"}'])).code, 0);
+    const duplicate = await skewer(['--models', modelsPath, 'insert', 'users', '{"name":"Ann"}']);
+    assert.match(duplicate.stderr, /DuplicateIdError|IndexError|unique/i);
+  });
+
+  it('should keep the indexes of the schema when a collection is opened without it', async () => {
+    await skewer(['--models', modelsPath, 'insert', 'users', '{"name":"Ann"}']);
+    await skewer(['insert', 'users', '{"name":"Bob"}']);
+
+    const indexFile = JSON.parse(fs.readFileSync(`${testBasePath}/users_index.json`, 'utf-8'));
+    assert.deepEqual(Object.keys(indexFile.name).sort(), ['Ann', 'Bob']);
+  });
+
+  it('should export and import records', async () => {
+    await skewer(['insert', 'users', '{"name":"Ann","age":30}']);
+
+    const exported = await skewer(['export', 'users']);
+    assert.equal(exported.code, 0);
+
+    await skewer(['insert', 'users', '{"name":"Bob","age":40}']);
+    fs.writeFileSync(`${testBasePath}/users.csv`, 'name,age\nCid,50\nDan,60\n');
+
+    const upserted = await skewer(['import', 'users', '--mode', 'upsert'], exported.stdout);
+    assert.deepEqual(JSON.parse(upserted.stdout), { inserted: 0, updated: 1, errors: [] });
+
+    const imported = await skewer(['import', 'users', '--format', 'csv', '--in', `${testBasePath}/users.csv`]);
+    assert.deepEqual(JSON.parse(imported.stdout), { inserted: 2, updated: 0, errors: [] });
+
+    const out = `${testBasePath}/users.ndjson`;
+    assert.equal(
+      (await skewer(['export', 'users', '--out', out, '--filter', '{"name":{"$in":["Cid","Dan"]}}'])).code,
+      0
+    );
+    assert.equal(fs.readFileSync(out, 'utf-8').trim().split('\n').length, 2);
+  });
+
+  it('should fail the export if the output file can not be written', async () => {
+    await skewer(['insert', 'users', '{"name":"Ann","age":30}']);
+
+    const exported = await skewer(['export', 'users', '--out', `${testBasePath}/missing/users.ndjson`]);
+    assert.equal(exported.code, 1);
+    assert.match(exported.stderr, /ENOENT/);
+  });
+
+  it('should verify and rebuild the indexes', async () => {
+    await skewer(['--models', modelsPath, 'insert', 'users', '{"name":"Ann"}']);
+    fs.writeFileSync(`${testBasePath}/users_index.json`, JSON.stringify({ name: {} }));
+
+    const invalid = await skewer(['--models', modelsPath, 'verify-indexes', 'users']);
+    assert.equal(invalid.code, 1);
+    assert.equal(JSON.parse(invalid.stdout).isValid, false);
+
+    assert.equal((await skewer(['rebuild-indexes', 'users'])).code, 0);
+
+    const valid = await skewer(['verify-indexes', 'users']);
+    assert.equal(valid.code, 0);
+    assert.equal(JSON.parse(valid.stdout).isValid, true);
+  });
+
+  it('should compact a collection', async () => {
+    await skewer(['insert', 'users', '{"name":"Ann"}']);
+
+    const { code, stderr } = await skewer(['compact', 'users']);
+
+    assert.equal(code, 0);
+    assert.match(stderr, /Compacted users/);
+  });
+
+  it('should open collections read-only for reading commands', async () => {
+    await skewer(['find', 'users']);
+
+    assert.equal(fs.existsSync(`${testBasePath}/users.json`), false);
+  });
+
+  it('should fail with the usage for invalid arguments', async () => {
+    const unknown = await skewer(['rename', 'users']);
+    assert.equal(unknown.code, 2);
+    assert.match(unknown.stderr, /Unknown command rename/);
+    assert.match(unknown.stderr, /Usage: skewer/);
+
+    assert.equal((await skewer(['find'])).code, 2);
+    assert.equal((await skewer(['insert', 'users', '{name}'])).code, 2);
+    assert.match((await skewer(['--help'])).stdout, /Usage: skewer/);
+  });
+});